@@ -86,8 +86,9 @@ async function closePositionExamples() {
 
     // 4. Close position via market order (explicit)
     console.log('4️⃣  Close position with market order (explicit)...\n');
-    console.log('   The closePosition() method uses a market order by default.');
-    console.log('   It will execute immediately to close the position.\n');
+    console.log('   The closePosition() method sends a reduce-only market order on the');
+    console.log('   opposite side of the position, then confirms the position is flat.');
+    console.log('   Use closeAllPositions() to do this for every open market.\n');
 
     // 5. Check positions after closing
     console.log('5️⃣  Checking positions after close...\n');
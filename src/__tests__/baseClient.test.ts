@@ -3,7 +3,7 @@
  */
 
 import { BaseClient } from '../clients/BaseClient';
-import { NetworkError, APIError } from '../errors';
+import { NetworkError, APIError, TimeoutError, RequestAbortedError } from '../errors';
 
 // Mock fetch
 global.fetch = jest.fn();
@@ -119,3 +119,63 @@ describe('BaseClient Retry Logic', () => {
   }, 10000);
 });
 
+describe('BaseClient Per-Call Options', () => {
+  let client: BaseClient;
+
+  // Never resolves on its own; rejects like fetch when the signal aborts
+  function hangingFetch(_url: string, init: any) {
+    return new Promise((_resolve, reject) => {
+      init.signal.addEventListener('abort', () => {
+        const error = new Error('The operation was aborted');
+        error.name = 'AbortError';
+        reject(error);
+      });
+    });
+  }
+
+  beforeEach(() => {
+    client = new BaseClient('https://api.test.com', 5000, {
+      retryAttempts: 0,
+      retryDelay: 10,
+    });
+    jest.clearAllMocks();
+  });
+
+  it('should honour a per-call timeout', async () => {
+    (global.fetch as jest.Mock).mockImplementation(hangingFetch);
+
+    const start = Date.now();
+    await expect(client['get']('/test', undefined, { timeout: 50 })).rejects.toBeInstanceOf(TimeoutError);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it('should cancel an in-flight request when the signal aborts', async () => {
+    (global.fetch as jest.Mock).mockImplementation(hangingFetch);
+
+    const controller = new AbortController();
+    const request = client['get']('/test', undefined, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(request).rejects.toBeInstanceOf(RequestAbortedError);
+  });
+
+  it('should not retry or send after the signal is aborted', async () => {
+    const retrying = new BaseClient('https://api.test.com', 5000, {
+      retryAttempts: 3,
+      retryDelay: 1000,
+    });
+    (global.fetch as jest.Mock).mockRejectedValue(new Error('Network error'));
+
+    const controller = new AbortController();
+    const request = retrying['get']('/test', undefined, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(request).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+
+    const aborted = new AbortController();
+    aborted.abort();
+    await expect(retrying['get']('/test', undefined, { signal: aborted.signal })).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for the response cache
+ */
+
+import { ResponseCache } from '../utils/cache';
+import { ApiClient } from '../clients/ApiClient';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+describe('ResponseCache', () => {
+  it('should share one in-flight load between concurrent callers', async () => {
+    const cache = new ResponseCache();
+    let resolveLoad: (value: string) => void = () => undefined;
+    const load = jest.fn(() => new Promise<string>((resolve) => { resolveLoad = resolve; }));
+
+    const first = cache.getOrLoad('/info/prices', 0, load);
+    const second = cache.getOrLoad('/info/prices', 0, load);
+    resolveLoad('prices');
+
+    await expect(Promise.all([first, second])).resolves.toEqual(['prices', 'prices']);
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(cache.size()).toBe(0);
+  });
+
+  it('should serve results until the TTL expires', async () => {
+    const cache = new ResponseCache();
+    const load = jest.fn().mockResolvedValueOnce('a').mockResolvedValueOnce('b');
+
+    await cache.getOrLoad('/markets', 30, load);
+    await expect(cache.getOrLoad('/markets', 30, load)).resolves.toBe('a');
+
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    await expect(cache.getOrLoad('/markets', 30, load)).resolves.toBe('b');
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache errors', async () => {
+    const cache = new ResponseCache();
+    const load = jest.fn().mockRejectedValueOnce(new Error('down')).mockResolvedValueOnce('ok');
+
+    await expect(cache.getOrLoad('/markets', 1000, load)).rejects.toThrow('down');
+    await expect(cache.getOrLoad('/markets', 1000, load)).resolves.toBe('ok');
+  });
+
+  it('should invalidate by key prefix, including in-flight loads', async () => {
+    const cache = new ResponseCache();
+    await cache.getOrLoad('/account/settings?account=A', 1000, async () => 'A');
+    await cache.getOrLoad('/markets', 1000, async () => 'markets');
+
+    let resolveLoad: (value: string) => void = () => undefined;
+    const pending = cache.getOrLoad('/account/settings?account=B', 1000,
+      () => new Promise<string>((resolve) => { resolveLoad = resolve; }));
+    cache.invalidate('/account/settings');
+    resolveLoad('stale');
+    await pending;
+
+    expect(cache.size()).toBe(1);
+    await expect(cache.getOrLoad('/account/settings?account=B', 1000, async () => 'fresh')).resolves.toBe('fresh');
+  });
+
+  it('should coalesce ApiClient reads and bypass the cache for abortable calls', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ success: true, data: [] }),
+    });
+    const client = new ApiClient({ baseUrl: 'https://api.test.com', cache: {} });
+
+    await Promise.all([client.getPrices(), client.getPrices()]);
+    await client.getPrices();
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+
+    await client.getPrices(undefined, { signal: new AbortController().signal });
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache unsuccessful responses', async () => {
+    (global.fetch as jest.Mock).mockReset();
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ success: false, error: { code: 'busy', message: 'Busy' } }) })
+      .mockResolvedValue({ ok: true, status: 200, json: async () => ({ success: true, data: [] }) });
+    const client = new ApiClient({ baseUrl: 'https://api.test.com', cache: {} });
+
+    expect((await client.getPrices()).success).toBe(false);
+    expect((await client.getPrices()).success).toBe(true);
+    await client.getPrices();
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep results from different base URLs apart', async () => {
+    (global.fetch as jest.Mock).mockReset();
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => ({
+      ok: true,
+      status: 200,
+      json: async () => ({ success: true, data: [{ source: new URL(url).host }] }),
+    }));
+    const cache = new ResponseCache();
+    const mainnet = new ApiClient({ baseUrl: 'https://api.pacifica.fi', cache, responseValidation: 'off' });
+    const testnet = new ApiClient({ baseUrl: 'https://test-api.pacifica.fi', cache, responseValidation: 'off' });
+
+    expect((await mainnet.getMarketInfo()).data).toEqual([{ source: 'api.pacifica.fi' }]);
+    expect((await testnet.getMarketInfo()).data).toEqual([{ source: 'test-api.pacifica.fi' }]);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+});
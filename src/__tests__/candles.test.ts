@@ -0,0 +1,120 @@
+/**
+ * Tests for range-chunked candle backfill
+ */
+
+import { ApiClient } from '../clients/ApiClient';
+import { UnsuccessfulResponseError, ValidationError } from '../errors';
+import { chunkCandleRange, findCandleGaps, mergeCandles } from '../utils/candles';
+import { CandleData } from '../types';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+const MINUTE = 60_000;
+
+function candle(t: number, close = '100') {
+  return { t, T: t + MINUTE - 1, s: 'BTC', i: '1m', o: '100', c: close, h: '101', l: '99', v: '1', n: 1 };
+}
+
+describe('Candle range helpers', () => {
+  it('should split a range into page-sized chunks aligned to the interval', () => {
+    expect(chunkCandleRange(30_000, 5 * MINUTE, '1m', 2)).toEqual([
+      { start: 0, end: 2 * MINUTE },
+      { start: 2 * MINUTE, end: 4 * MINUTE },
+      { start: 4 * MINUTE, end: 5 * MINUTE },
+    ]);
+  });
+
+  it('should reject empty ranges and bad page sizes', () => {
+    expect(() => chunkCandleRange(MINUTE, MINUTE, '1m', 10)).toThrow(ValidationError);
+    expect(() => chunkCandleRange(0, MINUTE, '1m', 0)).toThrow(ValidationError);
+  });
+
+  it('should merge pages by open time, dropping duplicates and out-of-range candles', () => {
+    const merged = mergeCandles([[candle(MINUTE), candle(0)], [candle(MINUTE, '105'), candle(3 * MINUTE)]], 0, 3 * MINUTE);
+
+    expect(merged.map((c) => [c.t, c.c])).toEqual([[0, '100'], [MINUTE, '105']]);
+  });
+
+  it('should group missing open times into gaps', () => {
+    const gaps = findCandleGaps([candle(0), candle(3 * MINUTE)], 0, 6 * MINUTE, '1m');
+
+    expect(gaps).toEqual([
+      { start: MINUTE, end: 3 * MINUTE, missing: 2 },
+      { start: 4 * MINUTE, end: 6 * MINUTE, missing: 2 },
+    ]);
+  });
+});
+
+describe('ApiClient.backfillCandleData', () => {
+  let client: ApiClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    client = new ApiClient({ baseUrl: 'https://api.test.com' });
+  });
+
+  it('should fetch every chunk with bounded concurrency and report gaps', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+
+      const params = new URL(url).searchParams;
+      const start = Number(params.get('start_time'));
+      const end = Number(params.get('end_time'));
+      const data: CandleData[] = [];
+      for (let t = start; t < end; t += MINUTE) {
+        if (t !== 7 * MINUTE) data.push(candle(t));
+      }
+      // Servers may include the candle opening at end_time; it must be de-duplicated
+      data.push(candle(end));
+      return { ok: true, status: 200, json: async () => ({ success: true, data }) };
+    });
+
+    const result = await client.backfillCandleData('BTC', '1m', 0, 10 * MINUTE, { pageSize: 2, concurrency: 2 });
+
+    expect(result.requests).toBe(5);
+    expect(maxInFlight).toBe(2);
+    expect(result.candles).toHaveLength(9);
+    expect(result.candles.map((c) => c.t)).toEqual([0, 1, 2, 3, 4, 5, 6, 8, 9].map((m) => m * MINUTE));
+    expect(result.gaps).toEqual([{ start: 7 * MINUTE, end: 8 * MINUTE, missing: 1 }]);
+    expect((global.fetch as jest.Mock).mock.calls[0][0]).toContain('interval=1m');
+  });
+
+  it('should align weekly candles to Monday 00:00 UTC without gaps', async () => {
+    const WEEK = 7 * 86_400_000;
+    const firstMonday = Date.UTC(2024, 0, 1);
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+      const params = new URL(url).searchParams;
+      const start = Number(params.get('start_time'));
+      const end = Number(params.get('end_time'));
+      const data: CandleData[] = [];
+      for (let t = firstMonday; t < end; t += WEEK) {
+        if (t >= start) data.push({ ...candle(t), i: '1w' });
+      }
+      return { ok: true, status: 200, json: async () => ({ success: true, data }) };
+    });
+
+    // Wednesday 3 January to Friday 1 March 2024
+    const result = await client.backfillCandleData('BTC', '1w', Date.UTC(2024, 0, 3), Date.UTC(2024, 2, 1), { pageSize: 4 });
+
+    expect(result.candles[0].t).toBe(firstMonday);
+    expect(result.candles.map((c) => new Date(c.t).getUTCDay())).toEqual(Array(9).fill(1));
+    expect(result.gaps).toEqual([]);
+  });
+
+  it('should fail when any chunk fails', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ success: false, error: { code: 'bad', message: 'Invalid range' } }),
+    });
+
+    await expect(client.backfillMarkPriceCandleData('BTC', '1h', 0, 10 * 3_600_000)).rejects.toBeInstanceOf(UnsuccessfulResponseError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
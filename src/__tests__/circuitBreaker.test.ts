@@ -0,0 +1,93 @@
+/**
+ * Tests for the REST circuit breaker
+ */
+
+import { CircuitBreaker, CircuitStateChangeEvent, defaultCircuitGroup } from '../utils/circuitBreaker';
+import { BaseClient } from '../clients/BaseClient';
+import { APIError, CircuitOpenError, NetworkError } from '../errors';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+describe('CircuitBreaker', () => {
+  const fail = () => Promise.reject(new NetworkError('down'));
+  const succeed = () => Promise.resolve('ok');
+
+  async function failTimes(breaker: CircuitBreaker, group: string, times: number) {
+    for (let i = 0; i < times; i++) {
+      await breaker.execute(group, fail).catch(() => undefined);
+    }
+  }
+
+  it('should group endpoints by their first path segment', () => {
+    expect(defaultCircuitGroup('/orders/create')).toBe('orders');
+    expect(defaultCircuitGroup('/info/prices?symbol=BTC')).toBe('info');
+    expect(defaultCircuitGroup('/')).toBe('default');
+  });
+
+  it('should open after the failure rate threshold and fail fast', async () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 4, failureRateThreshold: 0.5 });
+    const events: CircuitStateChangeEvent[] = [];
+    breaker.on('state_change', (event) => events.push(event));
+
+    await breaker.execute('orders', succeed);
+    await breaker.execute('orders', succeed);
+    await failTimes(breaker, 'orders', 2);
+
+    expect(breaker.getState('orders')).toBe('open');
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ group: 'orders', from: 'closed', to: 'open', failureRate: 0.5 });
+
+    const fn = jest.fn(succeed);
+    await expect(breaker.execute('orders', fn)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fn).not.toHaveBeenCalled();
+
+    // Other groups are unaffected
+    await expect(breaker.execute('info', succeed)).resolves.toBe('ok');
+  });
+
+  it('should not count client errors as failures', async () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 2 });
+    for (let i = 0; i < 3; i++) {
+      await breaker.execute('orders', () => Promise.reject(new APIError('Bad request', 400))).catch(() => undefined);
+    }
+    expect(breaker.getState('orders')).toBe('closed');
+  });
+
+  it('should close after a successful half-open probe', async () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 2, openDurationMs: 30 });
+    const transitions: string[] = [];
+    breaker.on('state_change', (event) => transitions.push(`${event.from}->${event.to}`));
+
+    await failTimes(breaker, 'account', 2);
+    expect(breaker.getState('account')).toBe('open');
+
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    expect(breaker.getState('account')).toBe('half_open');
+
+    await expect(breaker.execute('account', succeed)).resolves.toBe('ok');
+    expect(breaker.getState('account')).toBe('closed');
+    expect(transitions).toEqual(['closed->open', 'open->half_open', 'half_open->closed']);
+  });
+
+  it('should reopen when a half-open probe fails', async () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 2, openDurationMs: 30 });
+    await failTimes(breaker, 'account', 2);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    await failTimes(breaker, 'account', 1);
+    expect(breaker.getState('account')).toBe('open');
+  });
+
+  it('should stop client retries once the circuit opens', async () => {
+    (global.fetch as jest.Mock).mockRejectedValue(new Error('Network error'));
+    const client = new BaseClient('https://api.test.com', 5000, {
+      retryAttempts: 5,
+      retryDelay: 1,
+      circuitBreaker: { minimumRequests: 2, failureRateThreshold: 1 },
+    });
+
+    await expect(client['get']('/orders')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tests for server clock synchronisation
+ */
+
+import { ClockSync, ClockDriftEvent } from '../utils/clock';
+import { BaseClient } from '../clients/BaseClient';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+describe('ClockSync', () => {
+  it('should use the round-trip midpoint for the first sample', () => {
+    const clock = new ClockSync();
+    clock.addSample(10_500, { sentAt: 1_000, receivedAt: 1_200, source: 'endpoint' });
+
+    expect(clock.getOffset()).toBe(9_400);
+    expect(clock.getSampleCount()).toBe(1);
+  });
+
+  it('should smooth later samples into the estimate', () => {
+    const clock = new ClockSync({ smoothing: 0.5 });
+    clock.addSample(2_000, { receivedAt: 1_000, source: 'websocket' });
+    clock.addSample(4_000, { receivedAt: 1_000, source: 'websocket' });
+
+    expect(clock.getOffset()).toBe(2_000);
+  });
+
+  it('should centre HTTP Date headers within their one-second precision', () => {
+    const clock = new ClockSync();
+    const date = new Date(Date.UTC(2024, 0, 1, 0, 0, 10));
+    clock.addHttpDate(date.toUTCString(), date.getTime(), date.getTime());
+
+    expect(clock.getOffset()).toBe(500);
+  });
+
+  it('should ignore missing or malformed Date headers', () => {
+    const clock = new ClockSync();
+    clock.addHttpDate(null, 0, 0);
+    clock.addHttpDate('not a date', 0, 0);
+
+    expect(clock.getSampleCount()).toBe(0);
+  });
+
+  it('should apply the offset to now()', () => {
+    const clock = new ClockSync();
+    const local = Date.now();
+    clock.addSample(local + 60_000, { receivedAt: local, source: 'websocket' });
+
+    expect(clock.now() - Date.now()).toBeGreaterThanOrEqual(59_990);
+  });
+
+  it('should emit a drift warning once when the threshold is crossed', () => {
+    const clock = new ClockSync({ maxDriftMs: 1000, smoothing: 1 });
+    const events: ClockDriftEvent[] = [];
+    clock.on('drift', (event) => events.push(event));
+
+    clock.addSample(500, { receivedAt: 0, source: 'websocket' });
+    clock.addSample(3_000, { receivedAt: 0, source: 'websocket' });
+    clock.addSample(3_500, { receivedAt: 0, source: 'websocket' });
+
+    expect(events).toEqual([{ offsetMs: 3_000, maxDriftMs: 1000, source: 'websocket' }]);
+  });
+
+  it('should measure against a time source with sync()', async () => {
+    const clock = new ClockSync();
+    const offset = await clock.sync(async () => Date.now() - 5_000);
+
+    expect(offset).toBeLessThanOrEqual(-4_990);
+    expect(offset).toBeGreaterThanOrEqual(-5_010);
+  });
+
+  it('should sample the Date header of REST responses', async () => {
+    const clock = new ClockSync();
+    const serverDate = new Date(Date.now() + 120_000).toUTCString();
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: { get: (name: string) => (name === 'date' ? serverDate : null) },
+      json: async () => ({ success: true, data: {} }),
+    });
+
+    const client = new BaseClient('https://api.test.com', 5000, { clockSync: clock });
+    await client['get']('/info');
+
+    expect(clock.getSampleCount()).toBe(1);
+    expect(clock.getOffset()).toBeGreaterThan(118_000);
+    expect(clock.getOffset()).toBeLessThan(122_000);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for position-aware closePosition and closeAllPositions
+ */
+
+// Mock the signer module to avoid ESM issues
+jest.mock('../utils/signer', () => ({
+  generateKeypair: jest.fn(),
+  publicKeyToHex: jest.fn(() => 'mock-public-key'),
+  buildSignedRequest: jest.fn(async (operation: string, data: Record<string, any>) => ({
+    account: 'mock-account',
+    signature: 'mock-signature',
+    operation,
+    data,
+    timestamp: 1700000000000,
+    expiry_window: 5000,
+  })),
+  buildSignedRequestWithHardwareWallet: jest.fn(),
+}));
+
+import { SignClient } from '../clients/SignClient';
+import { RequestAbortedError, ValidationError } from '../errors';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+function ok(data: any) {
+  return { ok: true, status: 200, json: async () => ({ success: true, data }) };
+}
+
+/**
+ * Serve position reads from a queue of snapshots (the last one repeats) and accept market orders
+ */
+function mockExchange(snapshots: any[][], rejectSymbol?: string) {
+  const orders: any[] = [];
+  (global.fetch as jest.Mock).mockImplementation(async (url: string, init: any) => {
+    const body = JSON.parse(init.body);
+    if (url.endsWith('/orders/create_market')) {
+      orders.push(body);
+      if (body.symbol === rejectSymbol) {
+        return { ok: true, status: 200, json: async () => ({ success: false, error: { code: 'rejected', message: 'Order rejected' } }) };
+      }
+      return ok({ order_id: 100 + orders.length });
+    }
+    const positions = snapshots.length > 1 ? snapshots.shift()! : snapshots[0];
+    return ok(body.market ? positions.filter((p) => p.symbol === body.market) : positions);
+  });
+  return orders;
+}
+
+const LONG_BTC = { symbol: 'BTC', side: 'bid', amount: '0.3', entry_price: '65000' };
+const SHORT_ETH = { symbol: 'ETH', side: 'ask', amount: '2', entry_price: '3000' };
+
+describe('SignClient position closing', () => {
+  let client: SignClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    client = new SignClient('0'.repeat(64), {
+      baseUrl: 'https://api.test.com',
+      accountPublicKey: 'mock-account',
+      retryAttempts: 0,
+    });
+  });
+
+  it('should buy back a short position in full and confirm it is flat', async () => {
+    const orders = mockExchange([[SHORT_ETH], [SHORT_ETH], []]);
+
+    const result = await client.closePosition({ market: 'ETH', slippage_percent: '1' });
+
+    expect(orders).toHaveLength(1);
+    expect(orders[0]).toMatchObject({ symbol: 'ETH', side: 'bid', amount: '2', reduce_only: true, slippage_percent: '1' });
+    expect(result.data).toEqual({ order_id: 101, symbol: 'ETH', side: 'bid', amount: '2', remainingAmount: '0', flat: true });
+  });
+
+  it('should close part of a long position and report the remainder', async () => {
+    const orders = mockExchange([[LONG_BTC], [{ ...LONG_BTC, amount: '0.2' }]]);
+
+    const result = await client.closePosition({ market: 'BTC', size: '0.1' });
+
+    expect(orders[0]).toMatchObject({ side: 'ask', amount: '0.1', slippage_percent: '0.5' });
+    expect(result.data).toMatchObject({ remainingAmount: '0.2', flat: false });
+  });
+
+  it('should reject sizes larger than the position and missing positions', async () => {
+    mockExchange([[LONG_BTC]]);
+
+    await expect(client.closePosition({ market: 'BTC', size: '1' })).rejects.toBeInstanceOf(ValidationError);
+    const missing = await client.closePosition({ market: 'SOL' });
+    expect(missing.success).toBe(false);
+    expect(missing.error?.code).toBe('NOT_FOUND');
+  });
+
+  it('should stop waiting when the position does not reduce before the timeout', async () => {
+    mockExchange([[LONG_BTC]]);
+
+    const result = await client.closePosition({ market: 'BTC', confirmTimeoutMs: 0 });
+
+    expect(result.data).toMatchObject({ remainingAmount: '0.3', flat: false });
+  });
+
+  it('should stop waiting for confirmation when the signal aborts', async () => {
+    mockExchange([[LONG_BTC]]);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+    const started = Date.now();
+
+    await expect(client.closePosition({ market: 'BTC', confirmTimeoutMs: 10_000 }, { signal: controller.signal }))
+      .rejects.toBeInstanceOf(RequestAbortedError);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('should close every open position and report failures per market', async () => {
+    const orders = mockExchange([[LONG_BTC, SHORT_ETH]], 'ETH');
+
+    const result = await client.closeAllPositions({ confirm: false });
+
+    expect(orders.map((o) => [o.symbol, o.side])).toEqual([['BTC', 'ask'], ['ETH', 'bid']]);
+    expect(result.data?.closed.map((c) => c.symbol)).toEqual(['BTC']);
+    expect(result.data?.failed.map((f) => [f.symbol, f.error.message])).toEqual([['ETH', 'Order rejected']]);
+    expect(result.data?.flat).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Tests for exact decimal arithmetic and tick rounding
+ */
+
+import { Decimal } from '../utils/decimal';
+import { calculateSLTP, roundToTickSize, validateOrder } from '../utils/tradeValidation';
+import { ValidationError } from '../errors';
+
+describe('Decimal', () => {
+  it('should parse strings, numbers and exponents without loss', () => {
+    expect(Decimal.from('0.1').plus('0.2').toString()).toBe('0.3');
+    expect(Decimal.from(0.1).plus(0.2).toString()).toBe('0.3');
+    expect(Decimal.from('1e-7').toString()).toBe('0.0000001');
+    expect(Decimal.from('1.5E3').toString()).toBe('1500');
+    expect(Decimal.from('-0.00012300').toString()).toBe('-0.000123');
+    expect(Decimal.from('123456789012345678901234.5').toString()).toBe('123456789012345678901234.5');
+  });
+
+  it('should reject invalid input', () => {
+    expect(() => Decimal.from('abc')).toThrow(ValidationError);
+    expect(() => Decimal.from(NaN)).toThrow(ValidationError);
+    expect(() => Decimal.from('.')).toThrow(ValidationError);
+    expect(Decimal.tryFrom('1.2.3')).toBeNull();
+  });
+
+  it('should multiply, divide and compare exactly', () => {
+    expect(Decimal.from('1.1').times('1.1').toString()).toBe('1.21');
+    expect(Decimal.from(1).div(3, 4).toString()).toBe('0.3333');
+    expect(Decimal.from(2).div(3, 2).toString()).toBe('0.67');
+    expect(Decimal.from(-2).div(3, 2, 'down').toString()).toBe('-0.66');
+    expect(Decimal.from('1.10').eq('1.1')).toBe(true);
+    expect(Decimal.from('0.3').gt(0.1 + 0.2 - 0.0000001)).toBe(true);
+  });
+
+  it('should round to steps and format with fixed precision', () => {
+    expect(Decimal.from('0.123456').roundToStep('0.00001').toString()).toBe('0.12346');
+    expect(Decimal.from('101.5').roundToStep(1).toString()).toBe('102');
+    expect(Decimal.from('101.5').roundToStep(1, 'down').toString()).toBe('101');
+    expect(Decimal.from('1.5').toFixed(3)).toBe('1.500');
+    expect(Decimal.from('-0.004').toFixed(2)).toBe('0.00');
+    expect(Decimal.from('0.3').isMultipleOf('0.1')).toBe(true);
+    expect(Decimal.from('0.30001').isMultipleOf('0.0001')).toBe(false);
+  });
+});
+
+describe('Trade validation with exact decimals', () => {
+  it('should round to tick size without float artefacts', () => {
+    expect(roundToTickSize(0.1 + 0.2, 'SOL')).toBe('0.30');
+    expect(roundToTickSize('0.123456789', 'DOGE')).toBe('0.12346');
+    expect(roundToTickSize(65432.5, 'BTC')).toBe('65433');
+  });
+
+  it('should not warn about tick alignment for aligned DOGE prices', () => {
+    const result = validateOrder(
+      { symbol: 'DOGE', side: 'bid', amount: '1000', price: '0.12347', orderType: 'limit' },
+      { markPrice: 0.1235 },
+      { availableBalance: 1000 }
+    );
+
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should warn about misaligned prices with a recommendation', () => {
+    const result = validateOrder(
+      { symbol: 'ETH', side: 'bid', amount: '1', price: '3000.05', orderType: 'limit' },
+      { markPrice: 3000 },
+      { availableBalance: 10000 }
+    );
+
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0]).toContain('Recommended: 3000.1');
+  });
+
+  it('should calculate SL/TP on exact decimals', () => {
+    expect(calculateSLTP('0.3', 'bid', 'SOL', 10, 10)).toEqual({ stopLoss: '0.27', takeProfit: '0.33' });
+    expect(calculateSLTP(100000, 'ask', 'BTC', 5, 10)).toEqual({ stopLoss: '105000', takeProfit: '90000' });
+  });
+});
@@ -9,6 +9,12 @@ import {
   RateLimitError,
   APIError,
   ValidationError,
+  InsufficientBalanceError,
+  OrderNotFoundError,
+  SignatureExpiredError,
+  InvalidTickSizeError,
+  ReduceOnlyViolationError,
+  parseApiError,
 } from '../errors';
 
 describe('Error Classes', () => {
@@ -74,3 +80,63 @@ describe('Error Classes', () => {
   });
 });
 
+describe('Error Taxonomy', () => {
+  it('should map signature expiry messages to SignatureExpiredError', () => {
+    const error = parseApiError('Signature expired', 400, { error: { message: 'Signature expired' } });
+    expect(error).toBeInstanceOf(SignatureExpiredError);
+    expect(error).toBeInstanceOf(APIError);
+    expect(error.code).toBe('SIGNATURE_EXPIRED');
+    expect(error.status).toBe(400);
+  });
+
+  it('should extract structured fields for insufficient balance', () => {
+    const error = parseApiError('Insufficient balance: required 120.5, available 100', 400) as InsufficientBalanceError;
+    expect(error).toBeInstanceOf(InsufficientBalanceError);
+    expect(error.required).toBe('120.5');
+    expect(error.available).toBe('100');
+  });
+
+  it('should map server error codes regardless of message', () => {
+    const error = parseApiError('Request rejected', 404, {
+      error: { code: 'ORDER_NOT_FOUND', message: 'Request rejected', order_id: 42 },
+    }) as OrderNotFoundError;
+    expect(error).toBeInstanceOf(OrderNotFoundError);
+    expect(error.orderId).toBe('42');
+    expect(error.serverCode).toBe('ORDER_NOT_FOUND');
+  });
+
+  it('should map tick size and reduce-only rejections', () => {
+    const tick = parseApiError('Price 100.005 is not a multiple of tick size 0.01', 400) as InvalidTickSizeError;
+    expect(tick).toBeInstanceOf(InvalidTickSizeError);
+    expect(tick.tickSize).toBe('0.01');
+    expect(parseApiError('Reduce-only order would increase position', 400)).toBeInstanceOf(ReduceOnlyViolationError);
+  });
+
+  it('should fall back to APIError for unknown or server errors', () => {
+    expect(parseApiError('Something odd', 400).constructor).toBe(APIError);
+    expect(parseApiError('Insufficient balance', 500).constructor).toBe(APIError);
+  });
+
+  it('should preserve cause chains and serialize to JSON', () => {
+    const root = new Error('socket hang up');
+    const error = new NetworkError('Network request failed', root);
+    expect(error.cause).toBe(root);
+
+    const json = JSON.parse(JSON.stringify(error));
+    expect(json).toMatchObject({
+      name: 'NetworkError',
+      message: 'Network request failed',
+      code: 'NETWORK_ERROR',
+      cause: { name: 'Error', message: 'socket hang up' },
+    });
+
+    const wrapped = new PacificaError('Order failed', 'ORDER_FAILED', {
+      cause: parseApiError('Reduce only violation', 400),
+    });
+    expect(JSON.parse(JSON.stringify(wrapped)).cause).toMatchObject({
+      name: 'ReduceOnlyViolationError',
+      code: 'REDUCE_ONLY_VIOLATION',
+      status: 400,
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for CSV and NDJSON history exporters
+ */
+
+import { Writable } from 'stream';
+import { ApiClient } from '../clients/ApiClient';
+import { ValidationError } from '../errors';
+import {
+  escapeCsvField,
+  exportAccountHistory,
+  exportEquityHistory,
+  exportFundingHistory,
+  exportTradeHistory,
+  toCsvRow,
+  writeRows,
+} from '../utils/export';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+/**
+ * Writable with a tiny buffer so every write applies backpressure
+ */
+class SlowSink extends Writable {
+  chunks: string[] = [];
+  drains = 0;
+
+  constructor() {
+    super({ highWaterMark: 1, decodeStrings: false });
+    this.on('drain', () => this.drains++);
+  }
+
+  _write(chunk: any, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    this.chunks.push(String(chunk));
+    setImmediate(callback);
+  }
+
+  text(): string {
+    return this.chunks.join('');
+  }
+}
+
+function trade(id: number, createdAt: number) {
+  return {
+    history_id: id,
+    order_id: id,
+    client_order_id: id === 3 ? 'tag, "quoted"' : undefined,
+    symbol: 'BTC',
+    amount: '0.1',
+    price: '65000',
+    entry_price: '64000',
+    fee: '0.65',
+    pnl: '100',
+    event_type: 'fulfill_taker',
+    side: 'close_long',
+    created_at: createdAt,
+    cause: 'normal',
+  };
+}
+
+function mockHistory(data: any[]) {
+  (global.fetch as jest.Mock).mockResolvedValue({
+    ok: true,
+    status: 200,
+    json: async () => ({ success: true, data, has_more: false }),
+  });
+}
+
+describe('CSV encoding', () => {
+  it('should quote fields with commas, quotes and line breaks', () => {
+    expect(escapeCsvField('plain')).toBe('plain');
+    expect(escapeCsvField('a,b')).toBe('"a,b"');
+    expect(escapeCsvField('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvField('two\nlines')).toBe('"two\nlines"');
+    expect(toCsvRow(['a', undefined, 1, null])).toBe('a,,1,\r\n');
+  });
+});
+
+describe('History exporters', () => {
+  let client: ApiClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    client = new ApiClient({ baseUrl: 'https://api.test.com' });
+  });
+
+  it('should stream trade history as CSV with ISO and epoch timestamps', async () => {
+    mockHistory([trade(3, Date.UTC(2024, 0, 1)), trade(2, Date.UTC(2023, 11, 31))]);
+    const sink = new SlowSink();
+
+    const result = await exportTradeHistory(client, 'acct', sink);
+
+    const lines = sink.text().split('\r\n');
+    expect(lines[0]).toBe('history_id,time,time_ms,symbol,side,position_effect,amount,price,entry_price,fee,pnl,event_type,cause,order_id,client_order_id');
+    expect(lines[1]).toBe(`3,2024-01-01T00:00:00.000Z,${Date.UTC(2024, 0, 1)},BTC,ask,close,0.1,65000,64000,0.65,100,fulfill_taker,normal,3,"tag, ""quoted"""`);
+    expect(result).toEqual({ rows: 2, lastHistoryId: 3, lastTimestamp: Date.UTC(2024, 0, 1) });
+    expect(sink.drains).toBeGreaterThan(0);
+  });
+
+  it('should resume after the last exported history_id', async () => {
+    mockHistory([trade(5, 5000), trade(4, 4000), trade(3, 3000), trade(2, 2000)]);
+    const sink = new SlowSink();
+
+    const result = await exportTradeHistory(client, 'acct', sink, { afterHistoryId: 3, header: false, timestamps: 'epoch' });
+
+    expect(sink.text().split('\r\n').filter(Boolean).map((line) => line.split(',')[0])).toEqual(['5', '4']);
+    expect(result.lastHistoryId).toBe(5);
+  });
+
+  it('should write NDJSON with custom columns', async () => {
+    mockHistory([{ history_id: 9, symbol: 'ETH', side: 'bid', amount: '2', payout: '-0.12', rate: '0.0001', created_at: 1700000000000 }]);
+    const sink = new SlowSink();
+
+    await exportFundingHistory(client, 'acct', sink, {
+      format: 'ndjson',
+      columns: [
+        { header: 'id', value: (f) => f.history_id },
+        { header: 'market', value: (f) => f.symbol },
+        { header: 'payout', value: (f) => f.payout },
+      ],
+    });
+
+    expect(sink.text()).toBe('{"id":9,"market":"ETH","payout":"-0.12"}\n');
+  });
+
+  it('should export equity history within the time range', async () => {
+    mockHistory([
+      { timestamp: 1000, equity: '100', balance: '90', unrealized_pnl: '10' },
+      { timestamp: 3000, equity: '110', balance: '90', unrealized_pnl: '20' },
+    ]);
+    const sink = new SlowSink();
+
+    const result = await exportEquityHistory(client, 'acct', sink, { startTime: 500, endTime: 2000, timestamps: 'iso' });
+
+    expect(sink.text()).toBe('time,equity,balance,unrealized_pnl\r\n1970-01-01T00:00:01.000Z,100,90,10\r\n');
+    expect(result).toEqual({ rows: 1, lastTimestamp: 1000 });
+  });
+
+  it('should reject afterHistoryId for exports without history ids', async () => {
+    mockHistory([]);
+    const sink = new SlowSink();
+
+    await expect(exportAccountHistory(client, 'acct', sink, { afterHistoryId: 5 })).rejects.toBeInstanceOf(ValidationError);
+    await expect(exportEquityHistory(client, 'acct', sink, { afterHistoryId: 5 })).rejects.toMatchObject({ field: 'afterHistoryId' });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should propagate stream errors', async () => {
+    const failing = new Writable({
+      highWaterMark: 1,
+      write: (_chunk, _encoding, callback) => callback(new Error('disk full')),
+    });
+    failing.on('error', () => undefined);
+
+    await expect(writeRows([{ a: 1 }, { a: 2 }], failing, [{ header: 'a', value: (row) => row.a }])).rejects.toThrow('disk full');
+  });
+});
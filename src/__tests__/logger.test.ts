@@ -0,0 +1,96 @@
+/**
+ * Tests for the structured logger
+ */
+
+import { Logger, LogRecord, formatJson, logger as defaultLogger, redact } from '../utils/logger';
+import { ApiClient } from '../clients/ApiClient';
+import { APIError } from '../errors';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+function collectingLogger(level: 'debug' | 'info' | 'warn' = 'debug') {
+  const records: LogRecord[] = [];
+  const logger = new Logger({ level, sinks: [(record) => records.push(record)] });
+  return { logger, records };
+}
+
+describe('Logger', () => {
+  it('should filter records below the configured level', () => {
+    const { logger, records } = collectingLogger('warn');
+    logger.info('hidden');
+    logger.warn('shown');
+
+    expect(records.map((record) => record.message)).toEqual(['shown']);
+  });
+
+  it('should carry context through child loggers and share the level', () => {
+    const { logger, records } = collectingLogger('warn');
+    const child = logger.child({ account: 'acct' }).child({ operation: 'create_order', client_order_id: undefined });
+
+    logger.setLevel('debug');
+    child.debug('signing');
+
+    expect(records[0].context).toEqual({ account: 'acct', operation: 'create_order' });
+  });
+
+  it('should redact secret fields and key-like strings', () => {
+    const privateKey = '4'.repeat(88);
+    const hexKey = 'ab'.repeat(32);
+
+    expect(redact({
+      signature: 'sig',
+      nested: { privateKey: 'pk', agent_wallet: 'agent', symbol: 'BTC' },
+      note: `key ${privateKey} and ${hexKey}`,
+      bytes: new Uint8Array(32),
+    })).toEqual({
+      signature: '[REDACTED]',
+      nested: { privateKey: '[REDACTED]', agent_wallet: '[REDACTED]', symbol: 'BTC' },
+      note: 'key [REDACTED] and [REDACTED]',
+      bytes: '[REDACTED]',
+    });
+  });
+
+  it('should redact messages, arguments and errors before sinks see them', () => {
+    const { logger, records } = collectingLogger();
+    logger.error(`Failed with ${'5'.repeat(87)}`, { body: { signature: 'sig' } }, new APIError('Bad request', 400));
+
+    expect(records[0].message).toBe('Failed with [REDACTED]');
+    expect(records[0].args[0]).toEqual({ body: { signature: '[REDACTED]' } });
+    expect(records[0].args[1]).toMatchObject({ name: 'APIError', message: 'Bad request', status: 400 });
+  });
+
+  it('should format records as single JSON lines', () => {
+    const line = formatJson({
+      level: 'info',
+      message: 'hello',
+      time: Date.UTC(2024, 0, 1),
+      context: { client: 'ApiClient' },
+      args: [],
+    });
+
+    expect(JSON.parse(line)).toEqual({
+      time: '2024-01-01T00:00:00.000Z',
+      level: 'info',
+      msg: 'hello',
+      client: 'ApiClient',
+    });
+    expect(line).not.toContain('\n');
+  });
+
+  it('should give each client its own logger without changing the default', async () => {
+    const { logger, records } = collectingLogger();
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ success: true, data: [] }),
+    });
+
+    new ApiClient({ logLevel: 'debug' });
+    const client = new ApiClient({ baseUrl: 'https://api.test.com', logger });
+    await client.getPrices();
+
+    expect(defaultLogger.getLevel()).toBe('warn');
+    expect(records[0]).toMatchObject({ level: 'debug', context: { client: 'ApiClient' } });
+  });
+});
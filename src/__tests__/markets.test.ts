@@ -0,0 +1,165 @@
+/**
+ * Tests for the market metadata registry and its use in validation
+ */
+
+// Mock the signer module to avoid ESM issues
+jest.mock('../utils/signer', () => ({
+  generateKeypair: jest.fn(),
+  publicKeyToHex: jest.fn(() => 'mock-public-key'),
+  buildSignedRequest: jest.fn(async (operation: string, data: Record<string, any>) => ({
+    account: 'mock-account',
+    signature: 'signature',
+    operation,
+    data,
+    timestamp: 1700000000000,
+    expiry_window: 5000,
+  })),
+  buildSignedRequestWithHardwareWallet: jest.fn(),
+}));
+
+import { SignClient } from '../clients/SignClient';
+import { ApiResponse, MarketSpec } from '../types';
+import { MarketRegistry } from '../utils/markets';
+import { Logger } from '../utils/logger';
+import { calculateSLTP, roundToTickSize, validateOrder } from '../utils/tradeValidation';
+import { ValidationError } from '../errors';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+const SPECS: MarketSpec[] = [
+  { symbol: 'BTC', tick_size: '1', lot_size: '0.00001', max_leverage: 50, min_order_size: '10', max_order_size: '5000000' },
+  { symbol: 'WIF', tick_size: '0.0001', lot_size: '1', max_leverage: 10, min_order_size: '10' },
+  { symbol: 'OLD', tick_size: '0.01', lot_size: '1', max_leverage: 5, min_order_size: '10', status: 'delisted' },
+];
+
+function source(specs: MarketSpec[] = SPECS) {
+  return {
+    getMarketSpecs: jest.fn(async (): Promise<ApiResponse<MarketSpec[]>> => ({ success: true, data: specs })),
+  };
+}
+
+const silentLogger = new Logger({ level: 'silent' });
+
+async function loadedRegistry(): Promise<MarketRegistry> {
+  const registry = new MarketRegistry(source(), { logger: silentLogger });
+  await registry.load();
+  return registry;
+}
+
+describe('MarketRegistry', () => {
+  it('should load specs once for concurrent callers', async () => {
+    const specSource = source();
+    const registry = new MarketRegistry(specSource, { logger: silentLogger });
+
+    await Promise.all([registry.ensureLoaded(), registry.ensureLoaded(), registry.load()]);
+
+    expect(specSource.getMarketSpecs).toHaveBeenCalledTimes(1);
+    expect(registry.symbols()).toEqual(['BTC', 'WIF', 'OLD']);
+    expect(registry.get('WIF')?.tick_size).toBe('0.0001');
+    expect(registry.isTradable('BTC')).toBe(true);
+    expect(registry.isTradable('OLD')).toBe(false);
+    expect(registry.isTradable('NOPE')).toBe(false);
+  });
+
+  it('should keep the previous specs when a refresh fails', async () => {
+    const specSource = source();
+    const registry = new MarketRegistry(specSource, { logger: silentLogger, refreshIntervalMs: 0 });
+    const errors: Error[] = [];
+    registry.on('error', (error) => errors.push(error));
+    await registry.load();
+
+    specSource.getMarketSpecs.mockResolvedValueOnce({ success: false, error: { code: 'x', message: 'down' } });
+    await expect(registry.load()).rejects.toThrow('down');
+
+    expect(errors).toHaveLength(1);
+    expect(registry.get('BTC')).toBeDefined();
+  });
+
+  it('should refresh stale specs in the background', async () => {
+    const specSource = source();
+    const registry = new MarketRegistry(specSource, { logger: silentLogger, refreshIntervalMs: 0 });
+    await registry.load();
+
+    await registry.ensureLoaded();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(specSource.getMarketSpecs).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('Validation with market specs', () => {
+  it('should round to the registry tick size and reject unknown markets', async () => {
+    const registry = await loadedRegistry();
+
+    expect(roundToTickSize('2.345678', 'WIF', registry)).toBe('2.3457');
+    expect(calculateSLTP('2', 'bid', 'WIF', 5, 10, registry)).toEqual({ stopLoss: '1.9000', takeProfit: '2.2000' });
+    expect(() => roundToTickSize('1', 'NOPE', registry)).toThrow(ValidationError);
+    expect(() => roundToTickSize('1', 'WIF')).toThrow('No tick size known for WIF');
+  });
+
+  it('should check status, lot size and order size limits', async () => {
+    const registry = await loadedRegistry();
+
+    const lot = validateOrder({ symbol: 'WIF', side: 'bid', amount: '10.5', price: '2', orderType: 'limit' }, { markPrice: 2 }, { availableBalance: 1000 }, registry);
+    expect(lot.errors).toEqual([expect.stringContaining('lot size 1')]);
+
+    const halted = validateOrder({ symbol: 'OLD', side: 'bid', amount: '100', price: '1', orderType: 'limit' }, { markPrice: 1 }, { availableBalance: 1000 }, registry);
+    expect(halted.errors).toEqual([expect.stringContaining('delisted')]);
+
+    const unknown = validateOrder({ symbol: 'NOPE', side: 'bid', amount: '1' }, { markPrice: 1 }, { availableBalance: 1000 }, registry);
+    expect(unknown.errors).toEqual(['Unknown market: NOPE']);
+  });
+});
+
+describe('SignClient pre-flight checks', () => {
+  let client: SignClient;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    (global.fetch as jest.Mock).mockResolvedValue({ ok: true, status: 200, json: async () => ({ success: true, data: {} }) });
+    client = new SignClient('mock-private-key', {
+      baseUrl: 'https://api.test.com',
+      accountPublicKey: 'mock-account',
+      markets: await loadedRegistry(),
+    });
+  });
+
+  it('should reject orders that break market rules without sending them', async () => {
+    await expect(client.createLimitOrder({ symbol: 'BTC', side: 'bid', amount: '0.1', price: '65000.5' }))
+      .rejects.toMatchObject({ name: 'ValidationError', field: 'price' });
+    await expect(client.createMarketOrder({ symbol: 'WIF', side: 'bid', amount: '1.5', slippage_percent: '0.5' }))
+      .rejects.toMatchObject({ field: 'amount' });
+    await expect(client.createLimitOrder({ symbol: 'BTC', side: 'bid', amount: '0.0001', price: '65000' }))
+      .rejects.toThrow('below the minimum order size');
+    await expect(client.updateLeverage({ market: 'WIF', leverage: 20 }))
+      .rejects.toMatchObject({ field: 'leverage' });
+
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should value market orders at the mark price for the minimum order size', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ success: true, data: [{ symbol: 'BTC', mark: '65000', mid: '65001' }] }),
+    });
+
+    await expect(client.createMarketOrder({ symbol: 'BTC', side: 'bid', amount: '0.0001', slippage_percent: '0.5' }))
+      .rejects.toThrow('Order value 6.5 is below the minimum order size 10');
+    await client.createMarketOrder({ symbol: 'BTC', side: 'bid', amount: '0.001', slippage_percent: '0.5' });
+
+    const urls = (global.fetch as jest.Mock).mock.calls.map(([url]) => url);
+    expect(urls).toEqual([
+      'https://api.test.com/api/v1/info/prices',
+      'https://api.test.com/api/v1/info/prices',
+      'https://api.test.com/api/v1/orders/create_market',
+    ]);
+  });
+
+  it('should send orders that pass', async () => {
+    await client.createLimitOrder({ symbol: 'BTC', side: 'bid', amount: '0.1', price: '65000' });
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
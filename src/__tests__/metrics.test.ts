@@ -0,0 +1,116 @@
+/**
+ * Tests for instrumentation events and the Prometheus metrics collector
+ */
+
+import { Instrumentation, RequestEvent, RetryEvent } from '../utils/instrumentation';
+import { MetricsCollector, endpointLabel } from '../utils/metrics';
+import { BaseClient } from '../clients/BaseClient';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+function okResponse() {
+  return {
+    ok: true,
+    status: 200,
+    json: async () => ({ success: true, data: {} }),
+  };
+}
+
+describe('Instrumentation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should emit request and retry events for each attempt', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: { get: () => '0' },
+        text: async () => '',
+      })
+      .mockResolvedValueOnce(okResponse());
+
+    const instrumentation = new Instrumentation();
+    const requests: RequestEvent[] = [];
+    const retries: RetryEvent[] = [];
+    const rateLimited = jest.fn();
+    instrumentation.on('request', (event) => requests.push(event));
+    instrumentation.on('retry', (event) => retries.push(event));
+    instrumentation.on('rate_limited', rateLimited);
+
+    const client = new BaseClient('https://api.test.com', 5000, { retryDelay: 1, instrumentation });
+    await client['get']('/orders/123');
+
+    expect(requests.map(({ attempt, status, error }) => ({ attempt, status, error }))).toEqual([
+      { attempt: 0, status: 429, error: 'RateLimitError' },
+      { attempt: 1, status: 200, error: undefined },
+    ]);
+    expect(retries).toEqual([
+      { method: 'GET', endpoint: '/orders/123', attempt: 1, delayMs: 0, error: 'RateLimitError' },
+    ]);
+    expect(rateLimited).toHaveBeenCalledWith({ method: 'GET', endpoint: '/orders/123', retryAfterMs: 0 });
+  });
+
+  it('should emit timeout events', async () => {
+    (global.fetch as jest.Mock).mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+      init.signal.addEventListener('abort', () => {
+        const error = new Error('aborted');
+        error.name = 'AbortError';
+        reject(error);
+      });
+    }));
+
+    const instrumentation = new Instrumentation();
+    const timeouts = jest.fn();
+    instrumentation.on('timeout', timeouts);
+
+    const client = new BaseClient('https://api.test.com', 20, { retryAttempts: 0, instrumentation });
+    await expect(client['get']('/info')).rejects.toThrow('timeout');
+    expect(timeouts).toHaveBeenCalledWith({ method: 'GET', endpoint: '/info', timeoutMs: 20 });
+  });
+});
+
+describe('MetricsCollector', () => {
+  it('should collapse ids and query strings in endpoint labels', () => {
+    expect(endpointLabel('/orders/12345')).toBe('/orders/:id');
+    expect(endpointLabel('/info/prices?symbol=BTC')).toBe('/info/prices');
+  });
+
+  it('should render counters, histograms and gauges in Prometheus format', () => {
+    const instrumentation = new Instrumentation();
+    const metrics = new MetricsCollector(instrumentation, { latencyBuckets: [0.1, 1] });
+
+    instrumentation.record('request', { method: 'GET', endpoint: '/orders/1', attempt: 0, status: 200, durationMs: 50 });
+    instrumentation.record('request', { method: 'GET', endpoint: '/orders/2', attempt: 0, status: 200, durationMs: 500 });
+    instrumentation.record('request', { method: 'GET', endpoint: '/info', attempt: 0, durationMs: 5, error: 'NetworkError' });
+    instrumentation.record('retry', { method: 'GET', endpoint: '/info', attempt: 1, delayMs: 10, error: 'NetworkError' });
+    instrumentation.record('ws_connection', { state: 'open' });
+    instrumentation.record('ws_connection', { state: 'reconnecting', attempt: 1 });
+    instrumentation.record('ws_message', { type: 'prices' });
+    instrumentation.record('ws_message', { type: 'prices' });
+
+    const text = metrics.render();
+    expect(text).toContain('# TYPE pacifica_http_requests_total counter');
+    expect(text).toContain('pacifica_http_requests_total{method="GET",endpoint="/orders/:id",status="200"} 2');
+    expect(text).toContain('pacifica_http_requests_total{method="GET",endpoint="/info",status="none"} 1');
+    expect(text).toContain('pacifica_http_request_duration_seconds_bucket{method="GET",endpoint="/orders/:id",le="0.1"} 1');
+    expect(text).toContain('pacifica_http_request_duration_seconds_bucket{method="GET",endpoint="/orders/:id",le="+Inf"} 2');
+    expect(text).toContain('pacifica_http_request_duration_seconds_sum{method="GET",endpoint="/orders/:id"} 0.55');
+    expect(text).toContain('pacifica_http_retries_total{method="GET",endpoint="/info",reason="NetworkError"} 1');
+    expect(text).toContain('pacifica_ws_connected 1');
+    expect(text).toContain('pacifica_ws_reconnects_total 1');
+    expect(text).toContain('pacifica_ws_messages_total{type="prices"} 2');
+  });
+
+  it('should stop collecting after detach', () => {
+    const instrumentation = new Instrumentation();
+    const metrics = new MetricsCollector(instrumentation);
+    metrics.detach();
+
+    instrumentation.record('ws_message', { type: 'prices' });
+    expect(metrics.render()).not.toContain('pacifica_ws_messages_total{');
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Tests for the BaseClient middleware pipeline
+ */
+
+import { BaseClient } from '../clients/BaseClient';
+import { APIError, PacificaError } from '../errors';
+import { composeMiddleware, RequestContext } from '../utils/middleware';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+function makeContext(): RequestContext {
+  return {
+    method: 'GET',
+    endpoint: '/test',
+    url: 'https://api.test.com/api/v1/test',
+    headers: {},
+    attempt: 0,
+    timeout: 1000,
+    metadata: {},
+  };
+}
+
+describe('Middleware Pipeline', () => {
+  let client: BaseClient;
+
+  beforeEach(() => {
+    client = new BaseClient('https://api.test.com', 5000, {
+      retryAttempts: 2,
+      retryDelay: 10,
+    });
+    jest.clearAllMocks();
+  });
+
+  it('should run middleware in registration order around the handler', async () => {
+    const calls: string[] = [];
+    const handler = composeMiddleware(
+      [
+        async (_ctx, next) => {
+          calls.push('a:before');
+          const result = await next();
+          calls.push('a:after');
+          return result;
+        },
+        async (_ctx, next) => {
+          calls.push('b:before');
+          const result = await next();
+          calls.push('b:after');
+          return result;
+        },
+      ],
+      async () => {
+        calls.push('handler');
+        return { success: true };
+      }
+    );
+
+    await handler(makeContext());
+    expect(calls).toEqual(['a:before', 'b:before', 'handler', 'b:after', 'a:after']);
+  });
+
+  it('should let middleware add headers to outgoing requests', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ success: true }),
+    });
+
+    client.use(async (ctx, next) => {
+      ctx.headers['X-Correlation-Id'] = 'abc-123';
+      return next();
+    });
+
+    await client['post']('/test', { a: 1 });
+    const [, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(init.headers['X-Correlation-Id']).toBe('abc-123');
+    expect(init.body).toBe('{"a":1}');
+  });
+
+  it('should let middleware modify responses', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ success: true, data: 1 }),
+    });
+
+    client.use(async (_ctx, next) => {
+      const response = await next();
+      return { ...response, data: response.data + 1 };
+    });
+
+    const result = await client['get']('/test');
+    expect(result.data).toBe(2);
+  });
+
+  it('should let middleware rewrite errors', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: false,
+      status: 400,
+      statusText: 'Bad Request',
+      text: async () => JSON.stringify({ error: { message: 'Bad request' } }),
+    });
+
+    client.use(async (_ctx, next) => {
+      try {
+        return await next();
+      } catch (error) {
+        if (error instanceof APIError) {
+          throw new PacificaError(`Rewritten: ${error.message}`, 'REWRITTEN');
+        }
+        throw error;
+      }
+    });
+
+    await expect(client['get']('/test')).rejects.toMatchObject({
+      code: 'REWRITTEN',
+      message: 'Rewritten: Bad request',
+    });
+  });
+
+  it('should run registered middleware on every retry attempt', async () => {
+    (global.fetch as jest.Mock)
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ success: true }),
+      });
+
+    const attempts: number[] = [];
+    client.use(async (ctx, next) => {
+      attempts.push(ctx.attempt);
+      return next();
+    });
+
+    await client['get']('/test');
+    expect(attempts).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Tests for proxy, keep-alive and header network options
+ */
+
+import * as http from 'http';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { ApiClient } from '../clients/ApiClient';
+import { NodeHttpTransport } from '../utils/transport';
+import { createAgent, networkHeaders, resolveProxy } from '../utils/network';
+
+function listen(server: http.Server): Promise<string> {
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    });
+  });
+}
+
+function close(server: http.Server): Promise<void> {
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+describe('resolveProxy', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.HTTPS_PROXY;
+    delete process.env.https_proxy;
+    delete process.env.HTTP_PROXY;
+    delete process.env.http_proxy;
+    delete process.env.NO_PROXY;
+    delete process.env.no_proxy;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should prefer an explicit proxy and allow disabling it', () => {
+    process.env.HTTPS_PROXY = 'http://env-proxy:8080';
+
+    expect(resolveProxy('https://api.pacifica.fi', { proxy: 'http://explicit:3128' })).toBe('http://explicit:3128');
+    expect(resolveProxy('https://api.pacifica.fi', { proxy: false })).toBeUndefined();
+  });
+
+  it('should use HTTPS_PROXY for https and wss targets', () => {
+    process.env.HTTPS_PROXY = 'http://env-proxy:8080';
+
+    expect(resolveProxy('https://api.pacifica.fi/api/v1')).toBe('http://env-proxy:8080');
+    expect(resolveProxy('wss://ws.pacifica.fi/ws')).toBe('http://env-proxy:8080');
+    expect(resolveProxy('http://localhost:3000')).toBeUndefined();
+  });
+
+  it('should bypass hosts listed in NO_PROXY', () => {
+    process.env.HTTPS_PROXY = 'http://env-proxy:8080';
+    process.env.NO_PROXY = 'localhost, .internal.example';
+
+    expect(resolveProxy('https://localhost')).toBeUndefined();
+    expect(resolveProxy('https://api.internal.example')).toBeUndefined();
+    expect(resolveProxy('https://api.pacifica.fi')).toBe('http://env-proxy:8080');
+  });
+
+  it('should switch clients to the Node transport when a proxy variable is set', () => {
+    expect(new ApiClient({ baseUrl: 'https://api.pacifica.fi' })['transport']).not.toBeInstanceOf(NodeHttpTransport);
+
+    process.env.HTTPS_PROXY = 'http://env-proxy:8080';
+    expect(new ApiClient({ baseUrl: 'https://api.pacifica.fi' })['transport']).toBeInstanceOf(NodeHttpTransport);
+
+    process.env.NO_PROXY = 'api.pacifica.fi';
+    expect(new ApiClient({ baseUrl: 'https://api.pacifica.fi' })['transport']).not.toBeInstanceOf(NodeHttpTransport);
+  });
+});
+
+describe('NodeHttpTransport', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: http.IncomingHttpHeaders[];
+
+  beforeEach(async () => {
+    received = [];
+    server = http.createServer((req, res) => {
+      received.push(req.headers);
+      res.setHeader('Content-Type', 'application/json');
+      res.setHeader('X-Request-Id', 'abc');
+      res.end(JSON.stringify({ success: true, data: [] }));
+    });
+    baseUrl = await listen(server);
+  });
+
+  afterEach(async () => {
+    await close(server);
+  });
+
+  it('should send custom headers and user agent through ApiClient', async () => {
+    const network = { proxy: false as const, headers: { 'X-Team': 'desk-1' }, userAgent: 'my-bot/1.0' };
+    const transport = new NodeHttpTransport(network);
+    const client = new ApiClient({ baseUrl, transport, network });
+
+    try {
+      const result = await client.getPrices();
+      expect(result.success).toBe(true);
+      expect(received[0]['x-team']).toBe('desk-1');
+      expect(received[0]['user-agent']).toBe('my-bot/1.0');
+    } finally {
+      transport.destroy();
+    }
+  });
+
+  it('should expose status and case-insensitive headers', async () => {
+    const transport = new NodeHttpTransport({ proxy: false });
+
+    try {
+      const response = await transport.request({ method: 'GET', url: `${baseUrl}/info`, headers: {} });
+      expect(response.ok).toBe(true);
+      expect(response.status).toBe(200);
+      expect(response.headers.get('x-request-id')).toBe('abc');
+      expect(await response.json()).toEqual({ success: true, data: [] });
+    } finally {
+      transport.destroy();
+    }
+  });
+
+  it('should reject with an AbortError when the signal aborts', async () => {
+    const transport = new NodeHttpTransport({ proxy: false });
+    const controller = new AbortController();
+    controller.abort();
+
+    try {
+      await expect(transport.request({ method: 'GET', url: baseUrl, headers: {}, signal: controller.signal }))
+        .rejects.toMatchObject({ name: 'AbortError' });
+    } finally {
+      transport.destroy();
+    }
+  });
+
+  it('should tunnel requests through a CONNECT proxy', async () => {
+    const tunnels: string[] = [];
+    const proxy = http.createServer();
+    proxy.on('connect', (req: http.IncomingMessage, clientSocket: net.Socket, head: Buffer) => {
+      tunnels.push(req.url ?? '');
+      const [host, port] = (req.url ?? '').split(':');
+      const upstream = net.connect(Number(port), host, () => {
+        clientSocket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+        upstream.write(head);
+        upstream.pipe(clientSocket);
+        clientSocket.pipe(upstream);
+      });
+      upstream.on('error', () => clientSocket.destroy());
+    });
+    const proxyUrl = await listen(proxy);
+    const transport = new NodeHttpTransport({ proxy: proxyUrl, keepAlive: false });
+
+    try {
+      const response = await transport.request({ method: 'GET', url: `${baseUrl}/info`, headers: {} });
+      expect(response.status).toBe(200);
+      expect(tunnels).toEqual([new URL(baseUrl).host]);
+    } finally {
+      transport.destroy();
+      proxy.closeAllConnections?.();
+      await close(proxy);
+    }
+  });
+});
+
+describe('network helpers', () => {
+  it('should merge headers with the user agent', () => {
+    expect(networkHeaders({ headers: { 'X-A': '1' }, userAgent: 'ua' })).toEqual({ 'X-A': '1', 'User-Agent': 'ua' });
+    expect(networkHeaders()).toEqual({});
+  });
+
+  it('should enable keep-alive unless disabled', () => {
+    const agent = createAgent('https://api.pacifica.fi', { proxy: false, maxSockets: 4 });
+    const plain = createAgent('http://localhost', { proxy: false, keepAlive: false });
+
+    expect((agent as any).keepAlive).toBe(true);
+    expect(agent.maxSockets).toBe(4);
+    expect((plain as any).keepAlive).toBe(false);
+    agent.destroy();
+    plain.destroy();
+  });
+});
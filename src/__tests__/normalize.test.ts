@@ -0,0 +1,131 @@
+/**
+ * Tests for normalized order, position and trade models
+ */
+
+import { ApiClient } from '../clients/ApiClient';
+import { ValidationError } from '../errors';
+import { normalizeOrder, normalizeOrderSide, normalizePosition, normalizeTrade, parseTimestamp } from '../utils/normalize';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+describe('Normalization', () => {
+  it('should map every side spelling to bid or ask', () => {
+    expect(['buy', 'bid', 'long', 'open_long', 'close_short', 'BUY'].map(normalizeOrderSide)).toEqual(Array(6).fill('bid'));
+    expect(['sell', 'ask', 'short', 'open_short', 'close_long'].map(normalizeOrderSide)).toEqual(Array(5).fill('ask'));
+    expect(() => normalizeOrderSide('sideways')).toThrow(ValidationError);
+  });
+
+  it('should parse epoch seconds, milliseconds and ISO timestamps', () => {
+    expect(parseTimestamp(1700000000)).toBe(1700000000000);
+    expect(parseTimestamp('1700000000000')).toBe(1700000000000);
+    expect(parseTimestamp('2024-01-01T00:00:00Z')).toBe(Date.UTC(2024, 0, 1));
+    expect(parseTimestamp('soon')).toBeUndefined();
+  });
+
+  it('should normalize orders from either payload shape', () => {
+    const legacy = normalizeOrder({ id: '1', market: 'BTC', side: 'buy', size: '0.5', price: '65000', status: 'OPEN', created_at: '1700000000000', filled_size: '0.2' });
+    const api = normalizeOrder({
+      order_id: 2, symbol: 'ETH', side: 'ask', initial_amount: '3', filled_amount: '1', cancelled_amount: '0.5', price: '3000', reduce_only: true, created_at: 1700000000000,
+    } as any);
+
+    expect(legacy).toMatchObject({ id: '1', symbol: 'BTC', side: 'bid', status: 'open', reduceOnly: false, createdAt: 1700000000000 });
+    expect(legacy.remainingAmount.toString()).toBe('0.3');
+    expect(api).toMatchObject({ id: '2', symbol: 'ETH', side: 'ask', reduceOnly: true });
+    expect(api.remainingAmount.toString()).toBe('1.5');
+    expect(api.raw).toMatchObject({ order_id: 2 });
+  });
+
+  it('should normalize positions reported with bid/ask sides and amount', () => {
+    const position = normalizePosition({ symbol: 'SOL', side: 'ask', amount: '12.5', entry_price: '150.25', margin: '100', isolated: true } as any);
+
+    expect(position).toMatchObject({ symbol: 'SOL', side: 'short', isolated: true });
+    expect(position.amount.toString()).toBe('12.5');
+    expect(position.entryPrice.toNumber()).toBe(150.25);
+    expect(position.markPrice).toBeUndefined();
+  });
+
+  it('should normalize trade history items with position effects', () => {
+    const trade = normalizeTrade({
+      history_id: 42, order_id: 7, symbol: 'BTC', amount: '0.1', price: '65000', entry_price: '64000', fee: '0.65', pnl: '100',
+      event_type: 'fulfill_taker', side: 'close_long', created_at: 1700000000000, cause: 'normal',
+    });
+
+    expect(trade).toMatchObject({ id: '42', orderId: '7', side: 'ask', positionEffect: 'close', eventType: 'fulfill_taker', timestamp: 1700000000000 });
+    expect(trade.pnl?.toString()).toBe('100');
+  });
+
+  it('should reject payloads missing required fields', () => {
+    expect(() => normalizePosition({ symbol: 'BTC', side: 'long', entry_price: '1' } as any)).toThrow('Missing or invalid amount');
+  });
+});
+
+describe('ApiClient normalized responses', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return normalized positions and find them by symbol', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ success: true, data: [{ symbol: 'BTC', side: 'bid', amount: '0.5', entry_price: '65000' }] }),
+    });
+    const client = new ApiClient({ baseUrl: 'https://api.test.com' });
+
+    const result = await client.getPosition('BTC', 'acct');
+
+    expect(result.data?.side).toBe('long');
+    expect(result.data?.amount.toString()).toBe('0.5');
+    expect(result.data?.raw).toEqual({ symbol: 'BTC', side: 'bid', amount: '0.5', entry_price: '65000' });
+  });
+});
+
+describe('ApiClient strict validation of documented payloads', () => {
+  const position = {
+    symbol: 'AAVE',
+    side: 'ask',
+    amount: '223.72',
+    entry_price: '279.283134',
+    margin: '0',
+    funding: '13.159593',
+    isolated: false,
+    created_at: 1754928414996,
+    updated_at: 1759223365538,
+  };
+  const order = {
+    order_id: 315979358,
+    client_order_id: 'add9a4b5-c7f7-4124-b57f-86982d86d479',
+    symbol: 'ASTER',
+    side: 'ask',
+    price: '1.836',
+    initial_amount: '85.33',
+    filled_amount: '0',
+    cancelled_amount: '0',
+    stop_price: null,
+    order_type: 'limit',
+    stop_parent_order_id: null,
+    reduce_only: false,
+    created_at: 1759224706737,
+    updated_at: 1759224706737,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should accept real positions and open orders in strict mode', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ success: true, data: [position] }) })
+      .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ success: true, data: [order] }) });
+    const client = new ApiClient({ baseUrl: 'https://api.test.com', responseValidation: 'strict' });
+
+    const positions = await client.getPositions('acct');
+    const orders = await client.getOpenOrders('acct');
+
+    expect(positions.data?.[0]).toMatchObject({ symbol: 'AAVE', side: 'short' });
+    expect(positions.data?.[0].amount.toString()).toBe('223.72');
+    expect(orders.data?.[0]).toMatchObject({ id: '315979358', symbol: 'ASTER', side: 'ask', orderType: 'limit' });
+    expect(orders.data?.[0].amount.toString()).toBe('85.33');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for cursor-paginated history iterators
+ */
+
+import { ApiClient } from '../clients/ApiClient';
+import { UnsuccessfulResponseError } from '../errors';
+import { HistoryPage } from '../utils/pagination';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+function trade(history_id: number, created_at: number) {
+  return {
+    history_id,
+    order_id: history_id,
+    symbol: 'BTC',
+    amount: '0.1',
+    price: '65000',
+    entry_price: '65000',
+    fee: '0.5',
+    pnl: '0',
+    event_type: 'fulfill_taker',
+    side: 'open_long',
+    created_at,
+    cause: 'normal',
+  };
+}
+
+function mockPages(pages: Record<string, { data: any[]; next_cursor?: string; has_more: boolean }>) {
+  (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+    const cursor = new URL(url).searchParams.get('cursor') ?? '';
+    return { ok: true, status: 200, json: async () => ({ success: true, ...pages[cursor] }) };
+  });
+}
+
+async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterator) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('History iterators', () => {
+  let client: ApiClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    client = new ApiClient({ baseUrl: 'https://api.test.com' });
+    mockPages({
+      '': { data: [trade(5, 5000), trade(4, 4000)], next_cursor: 'c2', has_more: true },
+      c2: { data: [trade(3, 3000), trade(2, 2000)], next_cursor: 'c3', has_more: true },
+      c3: { data: [trade(1, 1000)], has_more: false },
+    });
+  });
+
+  it('should follow cursors until the last page', async () => {
+    const items = await collect(client.iterateTradeHistory('acct', { pageSize: 2 }));
+
+    expect(items.map((item) => item.id)).toEqual(['5', '4', '3', '2', '1']);
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    expect((global.fetch as jest.Mock).mock.calls[0][0]).toContain('limit=2');
+  });
+
+  it('should stop fetching once maxItems is reached', async () => {
+    const items = await collect(client.iterateTradeHistory('acct', { maxItems: 3 }));
+
+    expect(items.map((item) => item.id)).toEqual(['5', '4', '3']);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should apply time bounds and resume from a saved cursor', async () => {
+    const pages: HistoryPage<any>[] = [];
+    const items = await collect(client.iterateFundingHistory('acct', {
+      cursor: 'c2',
+      startTime: 1500,
+      endTime: 2500,
+      onPage: (page) => pages.push(page),
+    }));
+
+    expect(items.map((item) => item.history_id)).toEqual([2]);
+    expect(pages.map((page) => [page.cursor, page.nextCursor])).toEqual([['c2', 'c3'], ['c3', undefined]]);
+  });
+
+  it('should report the current page cursor when maxItems stops mid-page', async () => {
+    const pages: HistoryPage<any>[] = [];
+    const items = await collect(client.iterateTradeHistory('acct', { maxItems: 3, onPage: (page) => pages.push(page) }));
+
+    expect(items).toHaveLength(3);
+    expect(pages.map((page) => [page.cursor, page.nextCursor, page.nextSkip, page.items.length])).toEqual([
+      [undefined, 'c2', undefined, 2],
+      ['c2', 'c2', 1, 1],
+    ]);
+  });
+
+  it('should resume after a mid-page maxItems stop without repeating items', async () => {
+    let checkpoint: HistoryPage<any> | undefined;
+    const first = await collect(client.iterateTradeHistory('acct', { maxItems: 3, onPage: (page) => { checkpoint = page; } }));
+    const rest = await collect(client.iterateTradeHistory('acct', {
+      cursor: checkpoint?.nextCursor,
+      skip: checkpoint?.nextSkip,
+      maxItems: 1,
+      onPage: (page) => { checkpoint = page; },
+    }));
+    const last = await collect(client.iterateTradeHistory('acct', { cursor: checkpoint?.nextCursor, skip: checkpoint?.nextSkip }));
+
+    expect([...first, ...rest, ...last].map((item) => item.id)).toEqual(['5', '4', '3', '2', '1']);
+  });
+
+  it('should stop fetching once a page is entirely before startTime', async () => {
+    const pages: HistoryPage<any>[] = [];
+    const items = await collect(client.iterateFundingHistory('acct', { startTime: 3500, onPage: (page) => pages.push(page) }));
+
+    expect(items.map((item) => item.history_id)).toEqual([5, 4]);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(pages[1]).toMatchObject({ cursor: 'c2', items: [], nextCursor: undefined, hasMore: false });
+  });
+
+  it('should stop when the cursor does not advance', async () => {
+    mockPages({
+      '': { data: [trade(2, 2000)], next_cursor: 'c1', has_more: true },
+      c1: { data: [trade(1, 1000)], next_cursor: 'c1', has_more: true },
+    });
+
+    const items = await collect(client.iterateAccountHistory('acct'));
+    expect(items).toHaveLength(2);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should throw on unsuccessful pages', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ success: false, data: null, error: { code: 'bad', message: 'Invalid cursor' } }),
+    });
+
+    const error = await collect(client.iterateTradeHistory('acct', { cursor: 'stale' })).catch((e) => e);
+    expect(error).toBeInstanceOf(UnsuccessfulResponseError);
+    expect(error.serverCode).toBe('bad');
+    expect(error.status).toBeUndefined();
+  });
+});
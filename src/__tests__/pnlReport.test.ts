@@ -0,0 +1,102 @@
+/**
+ * Tests for the realized PnL, fees and funding report
+ */
+
+import { ApiClient } from '../clients/ApiClient';
+import { FundingHistoryItem, NormalizedTrade } from '../types';
+import { normalizeTrade } from '../utils/normalize';
+import { buildPnLReport, generatePnLReport, periodStart } from '../utils/pnlReport';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+const MON = Date.UTC(2024, 0, 1, 12);  // Monday 2024-01-01
+const TUE = Date.UTC(2024, 0, 2, 8);
+const NEXT_MON = Date.UTC(2024, 0, 8, 1);
+
+function trade(id: number, symbol: string, pnl: string, fee: string, createdAt: number, cause = 'normal', eventType = 'fulfill_taker') {
+  return {
+    history_id: id,
+    order_id: id,
+    symbol,
+    amount: '1',
+    price: '100',
+    entry_price: '100',
+    fee,
+    pnl,
+    event_type: eventType,
+    side: 'close_long',
+    created_at: createdAt,
+    cause,
+  };
+}
+
+function funding(id: number, symbol: string, payout: string, createdAt: number): FundingHistoryItem {
+  return { history_id: id, symbol, side: 'bid', amount: '1', payout, rate: '0.0001', created_at: createdAt };
+}
+
+const TRADES: NormalizedTrade[] = [
+  trade(1, 'BTC', '100.5', '1.25', MON),
+  trade(2, 'BTC', '-20', '0.75', TUE, 'normal', 'fulfill_maker'),
+  trade(3, 'ETH', '-50', '0.5', NEXT_MON, 'market_liquidation'),
+].map(normalizeTrade);
+
+const FUNDING = [
+  funding(10, 'BTC', '-0.3', MON),
+  funding(11, 'ETH', '0.7', NEXT_MON),
+];
+
+describe('PnL report', () => {
+  it('should total realized pnl, fees and funding exactly', () => {
+    const report = buildPnLReport(TRADES, FUNDING);
+
+    expect(report.totals).toEqual({
+      realizedPnl: '30.5',
+      fees: '2.5',
+      fundingPaid: '0.3',
+      fundingReceived: '0.7',
+      netFunding: '0.4',
+      netReturn: '28.4',
+      trades: 3,
+      fundingPayments: 2,
+    });
+  });
+
+  it('should group by symbol, cause and event type', () => {
+    const report = buildPnLReport(TRADES, FUNDING);
+
+    expect(report.bySymbol.BTC).toMatchObject({ realizedPnl: '80.5', fees: '2', netFunding: '-0.3', netReturn: '78.2' });
+    expect(report.bySymbol.ETH).toMatchObject({ realizedPnl: '-50', netReturn: '-49.8' });
+    expect(Object.keys(report.byCause).sort()).toEqual(['funding', 'market_liquidation', 'normal']);
+    expect(report.byEventType.fulfill_maker).toMatchObject({ trades: 1, realizedPnl: '-20' });
+    expect(report.byEventType.funding).toMatchObject({ fundingPayments: 2, netFunding: '0.4' });
+  });
+
+  it('should bucket by UTC day or ISO week', () => {
+    expect(periodStart(TUE, 'week')).toBe(Date.UTC(2024, 0, 1));
+    expect(buildPnLReport(TRADES, FUNDING).byPeriod.map((p) => p.label)).toEqual(['2024-01-01', '2024-01-02', '2024-01-08']);
+
+    const weekly = buildPnLReport(TRADES, FUNDING, { period: 'week' });
+    expect(weekly.byPeriod.map((p) => [p.label, p.totals.trades])).toEqual([['2024-01-01', 2], ['2024-01-08', 1]]);
+  });
+
+  it('should restrict to a time range and symbol', () => {
+    const report = buildPnLReport(TRADES, FUNDING, { startTime: Date.UTC(2024, 0, 2), symbol: 'BTC' });
+
+    expect(report.totals).toMatchObject({ trades: 1, fundingPayments: 0, realizedPnl: '-20' });
+  });
+
+  it('should fetch every history page through ApiClient', async () => {
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+      const data = url.includes('/funding/history') ? FUNDING : TRADES.map((t) => t.raw);
+      return { ok: true, status: 200, json: async () => ({ success: true, data, has_more: false }) };
+    });
+    const client = new ApiClient({ baseUrl: 'https://api.test.com' });
+
+    const report = await generatePnLReport(client, 'acct', { endTime: Date.UTC(2024, 0, 3) });
+
+    expect(report.account).toBe('acct');
+    expect(report.totals).toMatchObject({ trades: 2, fundingPayments: 1, netReturn: '78.2' });
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+});
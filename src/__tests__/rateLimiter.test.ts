@@ -0,0 +1,74 @@
+/**
+ * Tests for the token bucket rate limiter
+ */
+
+import { RateLimiter } from '../utils/rateLimiter';
+import { BaseClient } from '../clients/BaseClient';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+describe('RateLimiter', () => {
+  it('should allow bursts up to capacity without waiting', async () => {
+    const limiter = new RateLimiter({ capacity: 3, refillPerSecond: 1 });
+    await limiter.acquire();
+    await limiter.acquire();
+    await limiter.acquire();
+    expect(limiter.getAvailableTokens()).toBeLessThan(1);
+    expect(limiter.tryAcquire()).toBe(false);
+  });
+
+  it('should queue callers until budget is available', async () => {
+    const limiter = new RateLimiter({ capacity: 1, refillPerSecond: 50 }); // 20ms per token
+    const order: number[] = [];
+
+    const start = Date.now();
+    await Promise.all([1, 2, 3].map((id) => limiter.acquire().then(() => order.push(id))));
+
+    expect(order).toEqual([1, 2, 3]);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(35);
+    expect(limiter.getQueueLength()).toBe(0);
+  });
+
+  it('should resolve endpoint weights by longest prefix', () => {
+    const limiter = new RateLimiter({
+      weights: { '/orders': 2, '/orders/history': 4, create_order: 3 },
+    });
+    expect(limiter.weightFor('/orders/history')).toBe(4);
+    expect(limiter.weightFor('/orders/123')).toBe(2);
+    expect(limiter.weightFor('create_order')).toBe(3);
+    expect(limiter.weightFor('/info/prices')).toBe(1);
+  });
+
+  it('should release waiters on reset', async () => {
+    const limiter = new RateLimiter({ capacity: 1, refillPerSecond: 0.001 });
+    await limiter.acquire();
+    const pending = limiter.acquire();
+    expect(limiter.getQueueLength()).toBe(1);
+    limiter.reset();
+    await expect(pending).resolves.toBeUndefined();
+  });
+
+  it('should throttle client requests when enabled', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ success: true }),
+    });
+
+    const limiter = new RateLimiter({ capacity: 2, refillPerSecond: 0.001 });
+    const client = new BaseClient('https://api.test.com', 5000, { rateLimiter: limiter });
+
+    await client['get']('/test');
+    await client['get']('/test');
+    const third = client['get']('/test');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(limiter.getQueueLength()).toBe(1);
+
+    limiter.reset();
+    await third;
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Tests for runtime response validation
+ */
+
+import { array, decimalString, literal, number, object, optional, string, union, validateSchema } from '../utils/schema';
+import {
+  isAccountHistoryItem,
+  isAccountInfo,
+  isAckResult,
+  isAgentIPWhitelist,
+  isApiKeyList,
+  isBalance,
+  isBatchOrderResult,
+  isBuilderCodeApproval,
+  isCancelResult,
+  isCreateOrderResult,
+  isSubaccountResult,
+  isWithdrawResult,
+  orderSchema,
+  positionSchema,
+  priceDataSchema,
+} from '../utils/responseSchemas';
+import { ApiClient } from '../clients/ApiClient';
+import { ValidationError } from '../errors';
+import { Logger, LogRecord } from '../utils/logger';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+// Payloads as documented for GET /api/v1/info/prices, /positions and /orders
+const validPrice = {
+  funding: '0.00010529',
+  mark: '1.084819',
+  mid: '1.08615',
+  next_funding: '0.00011096',
+  open_interest: '3634796',
+  oracle: '1.084524',
+  symbol: 'XPL',
+  timestamp: 1759222967974,
+  volume_24h: '20896698.0672',
+  yesterday_price: '1.3412',
+};
+
+const validPosition = {
+  symbol: 'AAVE',
+  side: 'ask',
+  amount: '223.72',
+  entry_price: '279.283134',
+  margin: '0',
+  funding: '13.159593',
+  isolated: false,
+  created_at: 1754928414996,
+  updated_at: 1759223365538,
+};
+
+const validOrder = {
+  order_id: 315979358,
+  client_order_id: 'add9a4b5-c7f7-4124-b57f-86982d86d479',
+  symbol: 'ASTER',
+  side: 'ask',
+  price: '1.836',
+  initial_amount: '85.33',
+  filled_amount: '0',
+  cancelled_amount: '0',
+  stop_price: null,
+  order_type: 'limit',
+  stop_parent_order_id: null,
+  reduce_only: false,
+  created_at: 1759224706737,
+  updated_at: 1759224706737,
+};
+
+describe('Schema validation', () => {
+  it('should accept values matching the schema and allow extra fields', () => {
+    expect(validateSchema({ ...validPrice, extra: true }, priceDataSchema)).toEqual([]);
+  });
+
+  it('should report every invalid field with its path', () => {
+    const issues = validateSchema([validPrice, { ...validPrice, mark: 'NaN', timestamp: '1' }], array(priceDataSchema), 'data');
+
+    expect(issues).toEqual([
+      { path: 'data[1].mark', message: 'expected decimal string, got string "NaN"' },
+      { path: 'data[1].timestamp', message: 'expected number, got string "1"' },
+    ]);
+  });
+
+  it('should treat missing and null optional fields as valid', () => {
+    const schema = object<{ a: string; b?: number }>({ a: string(), b: optional(number()) });
+
+    expect(validateSchema({ a: 'x' }, schema)).toEqual([]);
+    expect(validateSchema({ a: 'x', b: null }, schema)).toEqual([]);
+    expect(validateSchema({ b: 1 }, schema)).toEqual([{ path: 'value.a', message: 'expected string, got undefined' }]);
+  });
+
+  it('should check literals, unions and decimal strings', () => {
+    expect(validateSchema('bid', literal('buy', 'sell'))).toHaveLength(1);
+    expect(validateSchema(5, union(string(), number()))).toEqual([]);
+    expect(validateSchema('1e-8', decimalString())).toEqual([]);
+    expect(validateSchema('', decimalString())).toHaveLength(1);
+  });
+
+  it('should accept documented positions and orders', () => {
+    expect(validateSchema(validPosition, positionSchema)).toEqual([]);
+    expect(validateSchema(validOrder, orderSchema)).toEqual([]);
+  });
+
+  it('should catch renamed fields on positions and orders', () => {
+    const { symbol, ...position } = validPosition;
+    const { initial_amount, ...order } = validOrder;
+
+    expect(validateSchema({ ...position, coin: symbol }, positionSchema, 'data')).toEqual([
+      { path: 'data', message: 'expected one of symbol, market' },
+    ]);
+    expect(validateSchema({ ...order, qty: initial_amount }, orderSchema, 'data')).toEqual([
+      { path: 'data', message: 'expected one of initial_amount, amount, size' },
+    ]);
+  });
+});
+
+describe('ApiClient response validation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ success: true, data: [{ ...validPrice, mark: undefined }] }),
+    });
+  });
+
+  it('should throw a ValidationError with the field path in strict mode', async () => {
+    const client = new ApiClient({ baseUrl: 'https://api.test.com', responseValidation: 'strict' });
+
+    const error = await client.getPrices().catch((e) => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.field).toBe('data[0].mark');
+    expect(error.message).toContain('Invalid getPrices response');
+  });
+
+  it('should log and pass the response through in lenient mode', async () => {
+    const records: LogRecord[] = [];
+    const logger = new Logger({ sinks: [(record) => records.push(record)] });
+    const client = new ApiClient({ baseUrl: 'https://api.test.com', responseValidation: 'lenient', logger });
+
+    const result = await client.getPrices();
+    expect(result.success).toBe(true);
+    expect(records).toHaveLength(1);
+    expect(records[0].message).toContain('data[0].mark');
+  });
+
+  it('should drop items that cannot be normalized unless strict', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ success: true, data: [validPosition, { ...validPosition, symbol: 'BTC', entry_price: undefined }] }),
+    });
+    const records: LogRecord[] = [];
+    const logger = new Logger({ sinks: [(record) => records.push(record)] });
+
+    for (const responseValidation of ['off', 'lenient'] as const) {
+      const client = new ApiClient({ baseUrl: 'https://api.test.com', responseValidation, logger });
+      const result = await client.getPositions('acct');
+      expect(result.data?.map((position) => position.symbol)).toEqual(['AAVE']);
+    }
+    expect(records.filter((record) => record.message.includes('Dropped malformed getPositions data[1]'))).toHaveLength(2);
+
+    const strict = new ApiClient({ baseUrl: 'https://api.test.com', responseValidation: 'strict' });
+    await expect(strict.getPositions('acct')).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('should not validate by default', async () => {
+    const client = new ApiClient({ baseUrl: 'https://api.test.com' });
+    await expect(client.getPrices()).resolves.toMatchObject({ success: true });
+  });
+});
+
+describe('Account response guards', () => {
+  const accountInfo = {
+    balance: '1000',
+    fee_level: 1,
+    account_equity: '1050.5',
+    available_to_spend: '800',
+    available_to_withdraw: '750',
+    pending_balance: '25',
+    total_margin_used: '250.5',
+    cross_mmr: '12.5',
+    positions_count: 1,
+  };
+
+  it('should recognise account info, balances and history items', () => {
+    expect(isAccountInfo(accountInfo)).toBe(true);
+    expect(isAccountInfo({ ...accountInfo, cross_mmr: undefined })).toBe(false);
+    expect(isBalance({ currency: 'USDC', balance: '10' })).toBe(true);
+    expect(isAccountHistoryItem({ amount: '-5', balance: '995', event_type: 'withdraw', created_at: 1700000000000 })).toBe(true);
+    expect(isAccountHistoryItem({ amount: '-5', balance: '995' })).toBe(false);
+  });
+
+  it('should derive the USDC balance from account info', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ success: true, data: accountInfo }),
+    });
+    const client = new ApiClient({ baseUrl: 'https://api.test.com', responseValidation: 'strict' });
+
+    const result = await client.getBalance('acct');
+    expect(result.data).toEqual({ currency: 'USDC', balance: '1000', available_to_withdraw: '750', pending_balance: '25' });
+  });
+});
+
+describe('Operation result guards', () => {
+  it('should recognise signed operation results', () => {
+    expect(isCreateOrderResult({ order_id: 12345, client_order_id: 'abc' })).toBe(true);
+    expect(isCreateOrderResult({ order_id: '12345' })).toBe(false);
+    expect(isCancelResult({ cancelled_count: 3 })).toBe(true);
+    expect(isBatchOrderResult({ results: [{ success: true, order_id: 1, error: null }, { success: false, error: 'Insufficient margin' }] })).toBe(true);
+    expect(isBatchOrderResult({ results: [{ order_id: 1 }] })).toBe(false);
+    expect(isWithdrawResult({ amount: '10', currency: 'USDC' })).toBe(true);
+    expect(isSubaccountResult({ subaccount: 'sub-key', main_account: 'main-key' })).toBe(true);
+    expect(isSubaccountResult(null)).toBe(false);
+    expect(isAckResult(null)).toBe(true);
+    expect(isAckResult('ok')).toBe(false);
+    expect(isApiKeyList({ active_api_keys: ['key-1'], api_key_limit: 5 })).toBe(true);
+    expect(isAgentIPWhitelist({ ip_addresses: ['10.0.0.1'], enabled: true })).toBe(true);
+    expect(isBuilderCodeApproval({ builder_code: 'desk', max_fee_rate: '0.001', updated_at: 1759224706737 })).toBe(true);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Tests for SignClient request signing and retries
+ */
+
+// Mock the signer module to avoid ESM issues
+let signCount = 0;
+jest.mock('../utils/signer', () => ({
+  generateKeypair: jest.fn(),
+  publicKeyToHex: jest.fn(() => 'mock-public-key'),
+  buildSignedRequest: jest.fn(async (operation: string, data: Record<string, any>) => {
+    signCount++;
+    return {
+      account: 'mock-account',
+      signature: `signature-${signCount}`,
+      operation,
+      data,
+      timestamp: 1700000000000 + signCount,
+      expiry_window: 5000,
+    };
+  }),
+  buildSignedRequestWithHardwareWallet: jest.fn(),
+}));
+
+import { SignClient } from '../clients/SignClient';
+import { APIError, ValidationError } from '../errors';
+import { ResponseCache } from '../utils/cache';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+function okResponse(data: any = {}) {
+  return {
+    ok: true,
+    status: 200,
+    json: async () => ({ success: true, data }),
+  };
+}
+
+function errorResponse(status: number, message: string) {
+  return {
+    ok: false,
+    status,
+    statusText: 'Error',
+    text: async () => JSON.stringify({ error: { message } }),
+  };
+}
+
+describe('SignClient', () => {
+  let client: SignClient;
+
+  beforeEach(() => {
+    signCount = 0;
+    jest.clearAllMocks();
+    client = new SignClient('0'.repeat(64), {
+      baseUrl: 'https://api.test.com',
+      accountPublicKey: 'mock-account',
+      retryAttempts: 2,
+      retryDelay: 10,
+    });
+  });
+
+  function sentBodies(): any[] {
+    return (global.fetch as jest.Mock).mock.calls.map(([, init]) => JSON.parse(init.body));
+  }
+
+  it('should re-sign the request on each retry attempt', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(errorResponse(500, 'Internal error'))
+      .mockResolvedValueOnce(okResponse());
+
+    const result = await client.cancelOrder({ order_id: 1, symbol: 'BTC' });
+
+    expect(result.success).toBe(true);
+    const bodies = sentBodies();
+    expect(bodies).toHaveLength(2);
+    expect(bodies[0].signature).toBe('signature-1');
+    expect(bodies[1].signature).toBe('signature-2');
+    expect(bodies[1].timestamp).toBeGreaterThan(bodies[0].timestamp);
+    expect(bodies[1].order_id).toBe(1);
+  });
+
+  it('should re-sign and resend when the signature has expired', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(errorResponse(400, 'Signature expired'))
+      .mockResolvedValueOnce(okResponse());
+
+    const result = await client.cancelAllOrders();
+
+    expect(result.success).toBe(true);
+    expect(sentBodies().map((body) => body.signature)).toEqual(['signature-1', 'signature-2']);
+  });
+
+  it('should let middleware see and tag the signed body of each attempt', async () => {
+    (global.fetch as jest.Mock)
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValueOnce(okResponse());
+
+    const seen: string[] = [];
+    client.use(async (ctx, next) => {
+      seen.push(ctx.body.signature);
+      ctx.body = { ...ctx.body, tag: `attempt-${ctx.attempt}` };
+      return next();
+    });
+
+    await client.cancelOrder({ order_id: 1, symbol: 'BTC' });
+
+    expect(seen).toEqual(['signature-1', 'signature-2']);
+    expect(sentBodies().map((body) => [body.signature, body.tag])).toEqual([
+      ['signature-1', 'attempt-0'],
+      ['signature-2', 'attempt-1'],
+    ]);
+  });
+
+  it('should not retry other client errors', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(errorResponse(400, 'Invalid order'));
+
+    await expect(client.cancelAllOrders()).rejects.toBeInstanceOf(APIError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should re-sign every batch action on retry', async () => {
+    (global.fetch as jest.Mock)
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValueOnce(okResponse());
+
+    await client.batchOrders([
+      { type: 'Cancel', data: { order_id: 1, symbol: 'BTC' } },
+      { type: 'Cancel', data: { order_id: 2, symbol: 'BTC' } },
+    ]);
+
+    const bodies = sentBodies();
+    expect(bodies).toHaveLength(2);
+    expect(bodies[0].actions.map((action: any) => action.data.signature)).toEqual(['signature-1', 'signature-2']);
+    expect(bodies[1].actions.map((action: any) => action.data.signature)).toEqual(['signature-3', 'signature-4']);
+  });
+
+  it('should return typed order results and reject malformed ones in strict mode', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(okResponse({ order_id: 470506 }));
+
+    const created = await client.createLimitOrder({ symbol: 'BTC', side: 'bid', amount: '0.1', price: '65000', tif: 'GTC' });
+    expect(created.data?.order_id).toBe(470506);
+
+    const strict = new SignClient('0'.repeat(64), {
+      baseUrl: 'https://api.test.com',
+      accountPublicKey: 'mock-account',
+      responseValidation: 'strict',
+    });
+    (global.fetch as jest.Mock).mockResolvedValueOnce(okResponse({ results: [{ order_id: 1 }] }));
+
+    await expect(strict.batchOrders([{ type: 'Cancel', data: { order_id: 1, symbol: 'BTC' } }]))
+      .rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('should sign plain decimal strings on every order-creating path', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(okResponse({ order_id: 1 }));
+    const body = () => JSON.parse((global.fetch as jest.Mock).mock.calls.at(-1)[1].body);
+
+    await client.createStopOrder({ market: 'BTC', side: 'sell', size: '1e-3', stop_price: '60000.0' });
+    expect(body()).toMatchObject({ size: '0.001', stop_price: '60000' });
+
+    await client.editOrder({ order_id: 1, symbol: 'BTC', price: '65000.50', amount: '0.10' });
+    expect(body()).toMatchObject({ price: '65000.5', amount: '0.1' });
+
+    await client.createTWAPOrder({ symbol: 'BTC', side: 'bid', amount: '5e-2', slippage_percent: '0.50', duration_in_seconds: 600 });
+    expect(body()).toMatchObject({ amount: '0.05', slippage_percent: '0.5' });
+
+    (global.fetch as jest.Mock).mockResolvedValueOnce(okResponse({ results: [{ success: true, order_id: 1 }] }));
+    await client.batchOrders([{ type: 'Create', data: { symbol: 'BTC', side: 'bid', amount: '1E-2', price: '65000.0' } }]);
+    expect(body().actions[0].data).toMatchObject({ amount: '0.01', price: '65000' });
+  });
+
+  it('should type account operation results and reject malformed ones in strict mode', async () => {
+    const strict = new SignClient('0'.repeat(64), {
+      baseUrl: 'https://api.test.com',
+      accountPublicKey: 'mock-account',
+      responseValidation: 'strict',
+    });
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(okResponse(null))
+      .mockResolvedValueOnce(okResponse({ active_api_keys: ['key-1'], api_key_limit: 5 }))
+      .mockResolvedValueOnce(okResponse({ active_api_keys: 'key-1' }));
+
+    await expect(strict.updateLeverage({ market: 'BTC', leverage: 5 })).resolves.toEqual({ success: true, data: null });
+    const keys = await strict.listApiKeys();
+    expect(keys.data?.active_api_keys).toEqual(['key-1']);
+    await expect(strict.listApiKeys()).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('should invalidate cached account settings after a leverage change', async () => {
+    const cache = new ResponseCache();
+    await cache.getOrLoad('https://api.test.com/api/v1/account/settings?account=mock-account', 60000, async () => 'cached');
+    const cachedClient = new SignClient('0'.repeat(64), {
+      baseUrl: 'https://api.test.com',
+      accountPublicKey: 'mock-account',
+      cache,
+    });
+    (global.fetch as jest.Mock).mockResolvedValue(okResponse());
+
+    await cachedClient.updateLeverage({ market: 'BTC', leverage: 5 });
+
+    expect(cache.size()).toBe(0);
+  });
+});
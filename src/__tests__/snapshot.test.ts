@@ -0,0 +1,51 @@
+/**
+ * Tests for the account snapshot aggregator
+ */
+
+import { ApiClient } from '../clients/ApiClient';
+import { APIError } from '../errors';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+const responses: Record<string, any> = {
+  '/account': { success: true, data: { balance: '1000', fee_level: 0, account_equity: '1000', available_to_spend: '900', pending_balance: '0', total_margin_used: '100', cross_mmr: '5' } },
+  '/positions': { success: true, data: [{ symbol: 'BTC', side: 'bid', amount: '0.1', entry_price: '65000' }] },
+  '/orders': { success: true, data: [{ order_id: 1, symbol: 'BTC', side: 'ask', initial_amount: '0.1', price: '70000', status: 'open' }] },
+  '/orders/twap': { success: true, data: [] },
+  '/account/settings': { success: false, error: { code: 'unavailable', message: 'Settings unavailable' } },
+};
+
+describe('ApiClient.getAccountSnapshot', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+      const path = new URL(url).pathname.replace('/api/v1', '');
+      if (path === '/account/builder_codes/approvals') {
+        return { ok: false, status: 500, statusText: 'Error', text: async () => JSON.stringify({ error: { message: 'boom' } }) };
+      }
+      return { ok: true, status: 200, json: async () => responses[path] };
+    });
+  });
+
+  it('should fetch every section concurrently and report failures per section', async () => {
+    const client = new ApiClient({ baseUrl: 'https://api.test.com', retryAttempts: 0 });
+    const before = Date.now();
+
+    const snapshot = await client.getAccountSnapshot('acct');
+
+    expect(global.fetch).toHaveBeenCalledTimes(6);
+    expect(snapshot.account).toBe('acct');
+    expect(snapshot.fetchedAt).toBeGreaterThanOrEqual(before);
+    expect(snapshot.complete).toBe(false);
+
+    expect(snapshot.accountInfo.ok && snapshot.accountInfo.data.available_to_spend).toBe('900');
+    expect(snapshot.positions.ok && snapshot.positions.data[0].side).toBe('long');
+    expect(snapshot.openOrders.ok && snapshot.openOrders.data[0].id).toBe('1');
+    expect(snapshot.twapOrders).toEqual({ ok: true, data: [] });
+
+    expect(snapshot.settings.ok).toBe(false);
+    expect(!snapshot.settings.ok && snapshot.settings.error.message).toBe('Settings unavailable');
+    expect(!snapshot.builderApprovals.ok && snapshot.builderApprovals.error).toBeInstanceOf(APIError);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for pluggable HTTP transports
+ */
+
+// Mock the signer module to avoid ESM issues
+jest.mock('../utils/signer', () => ({
+  generateKeypair: jest.fn(),
+  publicKeyToHex: jest.fn(() => 'mock-public-key'),
+  buildSignedRequest: jest.fn(async (operation: string, data: Record<string, any>) => ({
+    account: 'mock-account',
+    signature: 'mock-signature',
+    operation,
+    data,
+    timestamp: 1700000000000,
+    expiry_window: 5000,
+  })),
+  buildSignedRequestWithHardwareWallet: jest.fn(),
+}));
+
+import { Keypair } from '@solana/web3.js';
+import { ApiClient } from '../clients/ApiClient';
+import { PacificaSDK } from '../index';
+import { Transport, TransportRequest, TransportResponse } from '../types';
+
+class FakeTransport implements Transport {
+  requests: TransportRequest[] = [];
+
+  constructor(private readonly handler: (request: TransportRequest) => { status: number; body: any }) {}
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    this.requests.push(request);
+    const { status, body } = this.handler(request);
+    const text = JSON.stringify(body);
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      statusText: String(status),
+      headers: { get: () => null },
+      json: async () => JSON.parse(text),
+      text: async () => text,
+    };
+  }
+}
+
+describe('Transport', () => {
+  it('should route ApiClient requests through a custom transport', async () => {
+    const transport = new FakeTransport(() => ({
+      status: 200,
+      body: { success: true, data: [{ symbol: 'BTC', isolated: false, leverage: 10 }] },
+    }));
+    const client = new ApiClient({ baseUrl: 'https://api.test.com', transport });
+
+    const result = await client.getAccountSettings('account-1');
+
+    expect(result.success).toBe(true);
+    expect(result.data?.[0].leverage).toBe(10);
+    expect(transport.requests).toHaveLength(1);
+    expect(transport.requests[0].method).toBe('GET');
+    expect(transport.requests[0].url).toBe('https://api.test.com/api/v1/account/settings?account=account-1');
+  });
+
+  it('should send the SDK network headers on REST and signed requests', async () => {
+    const transport = new FakeTransport(() => ({ status: 200, body: { success: true, data: [] } }));
+    const sdk = new PacificaSDK(Keypair.generate().secretKey, {
+      baseUrl: 'https://api.test.com',
+      accountPublicKey: 'mock-account',
+      transport,
+      network: { headers: { 'X-Team': 'desk-1' }, userAgent: 'my-bot/1.0' },
+    });
+
+    await sdk.apiClient.getPrices();
+    await sdk.signClient.cancelAllOrders('BTC');
+
+    expect(transport.requests).toHaveLength(2);
+    for (const request of transport.requests) {
+      expect(request.headers).toMatchObject({ 'X-Team': 'desk-1', 'User-Agent': 'my-bot/1.0' });
+    }
+  });
+
+  it('should default to the fetch transport', async () => {
+    const originalFetch = global.fetch;
+    const originalEnv = process.env;
+    process.env = { ...originalEnv, HTTPS_PROXY: '', https_proxy: '', HTTP_PROXY: '', http_proxy: '' };
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: { get: () => null },
+      json: async () => ({ success: true, data: [] }),
+    });
+    global.fetch = fetchMock;
+
+    try {
+      const client = new ApiClient({ baseUrl: 'https://api.test.com' });
+      const result = await client.getPrices();
+
+      expect(result.success).toBe(true);
+      expect(fetchMock).toHaveBeenCalledWith('https://api.test.com/api/v1/info/prices', expect.objectContaining({
+        method: 'GET',
+      }));
+    } finally {
+      global.fetch = originalFetch;
+      process.env = originalEnv;
+    }
+  });
+});
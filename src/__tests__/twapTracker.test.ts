@@ -0,0 +1,162 @@
+/**
+ * Tests for the TWAP execution tracker
+ */
+
+import { PacificaError } from '../errors';
+import { Logger } from '../utils/logger';
+import { TWAPProgress, TWAPTracker, TWAPUpdateStream } from '../utils/twapTracker';
+
+const CREATED_AT = Date.now() - 60_000;
+const CREATED_MINUTE = Math.floor(CREATED_AT / 60_000) * 60_000;
+
+function order(overrides: Record<string, any> = {}) {
+  return {
+    id: 42,
+    symbol: 'BTC',
+    side: 'bid',
+    amount: '1',
+    slippage_percent: '0.5',
+    duration_in_seconds: 600,
+    status: 'open',
+    created_at: String(CREATED_AT),
+    filled_amount: '0.25',
+    average_fill_price: '50050',
+    ...overrides,
+  };
+}
+
+class FakeStream implements TWAPUpdateStream {
+  handlers = new Set<(data: any) => void>();
+  on(_event: 'twap_order_update', handler: (data: any) => void): void {
+    this.handlers.add(handler);
+  }
+  off(_event: 'twap_order_update', handler: (data: any) => void): void {
+    this.handlers.delete(handler);
+  }
+  push(data: any): void {
+    this.handlers.forEach((handler) => handler(data));
+  }
+}
+
+describe('TWAPTracker', () => {
+  const silent = new Logger({ level: 'silent' });
+  let source: { getTWAPOrderHistoryById: jest.Mock; getMarkPriceCandleData?: jest.Mock };
+  let stream: FakeStream;
+  let tracker: TWAPTracker;
+
+  beforeEach(() => {
+    source = {
+      getTWAPOrderHistoryById: jest.fn().mockResolvedValue({ success: true, data: order() }),
+      getMarkPriceCandleData: jest.fn().mockResolvedValue({
+        success: true,
+        data: [{ t: CREATED_MINUTE, T: CREATED_MINUTE + 59_999, s: 'BTC', i: '1m', o: '50000', c: '50200', h: '50300', l: '49900' }],
+      }),
+    };
+    stream = new FakeStream();
+    tracker = new TWAPTracker(source, 42, { updates: stream, pollIntervalMs: 60_000, logger: silent });
+  });
+
+  afterEach(() => {
+    tracker.stop();
+  });
+
+  it('should build progress from a poll with slippage against the mark price at creation', async () => {
+    await tracker.poll();
+
+    const progress = tracker.getProgress()!;
+    expect(progress.orderId).toBe('42');
+    expect(progress.filledAmount.toString()).toBe('0.25');
+    expect(progress.remainingAmount.toString()).toBe('0.75');
+    expect(progress.percentComplete).toBe(25);
+    expect(progress.arrivalMarkPrice?.toString()).toBe('50000');
+    expect(progress.slippageBps).toBe(10);
+    expect(progress.elapsedMs).toBeGreaterThanOrEqual(60_000);
+    expect(progress.remainingMs).toBeLessThanOrEqual(540_000);
+    expect(progress.terminal).toBe(false);
+    expect(source.getMarkPriceCandleData).toHaveBeenCalledWith('BTC', '1m', CREATED_MINUTE, CREATED_MINUTE + 60_000);
+
+    await tracker.poll();
+    expect(source.getMarkPriceCandleData).toHaveBeenCalledTimes(1);
+  });
+
+  it('should apply the order when the arrival price lookup fails', async () => {
+    const errors: Error[] = [];
+    tracker.on('error', (error) => errors.push(error));
+    source.getMarkPriceCandleData!.mockRejectedValueOnce(new Error('timeout'));
+
+    await tracker.poll();
+
+    expect(errors.map((e) => e.message)).toEqual(['timeout']);
+    expect(tracker.getProgress()?.percentComplete).toBe(25);
+    expect(tracker.getProgress()?.slippageBps).toBeUndefined();
+  });
+
+  it('should leave slippage undefined without a historical mark price', async () => {
+    delete source.getMarkPriceCandleData;
+    tracker = new TWAPTracker(source, 42, { logger: silent });
+
+    await tracker.poll();
+    expect(tracker.getProgress()?.arrivalMarkPrice).toBeUndefined();
+    expect(tracker.getProgress()?.slippageBps).toBeUndefined();
+
+    tracker = new TWAPTracker(source, 42, { logger: silent, arrivalMarkPrice: '50100' });
+    await tracker.poll();
+    expect(tracker.getProgress()?.slippageBps).toBe(-9.98);
+  });
+
+  it('should keep the poll timer referenced unless unref is set', () => {
+    tracker.start();
+    expect((tracker as any).timer.hasRef()).toBe(true);
+
+    const unrefed = new TWAPTracker(source, 42, { pollIntervalMs: 60_000, logger: silent, unref: true });
+    unrefed.start();
+    expect((unrefed as any).timer.hasRef()).toBe(false);
+    unrefed.stop();
+  });
+
+  it('should merge WebSocket updates and resolve done() on a terminal status', async () => {
+    const events: string[] = [];
+    tracker.on('progress', (p) => events.push(`${p.source}:${p.percentComplete}`));
+    tracker.on('complete', (p) => events.push(`complete:${p.status}`));
+    tracker.start();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    stream.push({ order_id: 7, filled_amount: '0.9' });  // another order
+    stream.push({ order_id: 42, filled_amount: '0.5', average_fill_price: '49950' });
+    stream.push([{ order_id: 42, filled_amount: '1', status: 'finished' }]);
+
+    const final: TWAPProgress = await tracker.done();
+    expect(events).toEqual(['poll:25', 'websocket:50', 'websocket:100', 'complete:finished']);
+    expect(final.averageFillPrice?.toString()).toBe('49950');
+    expect(final.slippageBps).toBe(-10);
+    expect(stream.handlers.size).toBe(0);
+  });
+
+  it('should ignore stale updates that report less filled', async () => {
+    tracker.start();
+    await new Promise((resolve) => setImmediate(resolve));
+    stream.push({ order_id: 42, filled_amount: '0.6' });
+    await tracker.poll();  // still reports 0.25
+
+    expect(tracker.getProgress()!.filledAmount.toString()).toBe('0.6');
+  });
+
+  it('should reject done() when stopped before completion', async () => {
+    tracker.start();
+    tracker.stop();
+
+    await expect(tracker.done()).rejects.toBeInstanceOf(PacificaError);
+  });
+
+  it('should report poll failures without stopping', async () => {
+    const errors: Error[] = [];
+    tracker.on('error', (error) => errors.push(error));
+    source.getTWAPOrderHistoryById.mockResolvedValueOnce({ success: false, error: { message: 'not found' } });
+
+    await tracker.poll();
+    await tracker.poll();
+
+    expect(errors.map((e) => e.message)).toEqual(['not found']);
+    expect(tracker.getProgress()?.percentComplete).toBe(25);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for WebSocket trading operation responses
+ */
+
+jest.mock('../utils/signer', () => ({
+  buildSignedRequest: jest.fn(async (operation: string, data: Record<string, any>) => ({
+    account: 'mock-account',
+    signature: 'mock-signature',
+    timestamp: 1700000000000,
+    operation,
+    data,
+  })),
+}));
+
+jest.mock('ws', () => {
+  const { EventEmitter } = require('events');
+  class FakeSocket extends EventEmitter {
+    static OPEN = 1;
+    static instances: FakeSocket[] = [];
+    readyState = 1;
+    sent: any[] = [];
+    constructor() {
+      super();
+      FakeSocket.instances.push(this);
+      setImmediate(() => this.emit('open'));
+    }
+    send(data: string): void {
+      this.sent.push(JSON.parse(data));
+    }
+    close(): void {
+      this.readyState = 3;
+      this.emit('close');
+    }
+  }
+  return { __esModule: true, default: FakeSocket };
+});
+
+import WS from 'ws';
+import { WebSocketClient } from '../clients/WebSocketClient';
+import { NetworkError, TimeoutError, ValidationError } from '../errors';
+import { ClockSync } from '../utils/clock';
+
+function lastSocket(): any {
+  const instances = (WS as any).instances;
+  return instances[instances.length - 1];
+}
+
+function reply(message: Record<string, any>): void {
+  lastSocket().emit('message', Buffer.from(JSON.stringify(message)));
+}
+
+describe('WebSocketClient trading operations', () => {
+  let client: WebSocketClient;
+
+  beforeEach(async () => {
+    client = new WebSocketClient({ privateKey: '0'.repeat(64), accountPublicKey: 'mock-account', reconnect: false, operationTimeout: 50 });
+    await client.connect();
+  });
+
+  afterEach(() => {
+    client.disconnect();
+  });
+
+  it('should resolve each operation with the response carrying its id', async () => {
+    const first = client.createLimitOrder('BTC', 'buy', '0.1', '65000');
+    const second = client.cancelOrder(42, 'BTC');
+    await new Promise((resolve) => setImmediate(resolve));
+    const [create, cancel] = lastSocket().sent;
+
+    reply({ id: cancel.id, code: 200, data: { order_id: 42 }, type: 'cancel_order' });
+    reply({ id: create.id, code: 200, data: { i: 470506, I: 'my-id', s: 'BTC' }, type: 'create_order' });
+
+    expect(create.id).not.toBe(cancel.id);
+    await expect(second).resolves.toEqual({ success: true, data: { order_id: 42 } });
+    await expect(first).resolves.toEqual({ success: true, data: { order_id: 470506, client_order_id: 'my-id', s: 'BTC' } });
+  });
+
+  it('should report rejected operations as unsuccessful responses', async () => {
+    const pending = client.createMarketOrder('BTC', 'sell', '5');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    reply({ id: lastSocket().sent[0].id, code: 400, err: 'Insufficient balance' });
+
+    await expect(pending).resolves.toEqual({ success: false, error: { code: '400', message: 'Insufficient balance' } });
+  });
+
+  it('should check operation results against their schemas when validation is enabled', async () => {
+    client.disconnect();
+    client = new WebSocketClient({ privateKey: '0'.repeat(64), accountPublicKey: 'mock-account', reconnect: false, responseValidation: 'strict' });
+    await client.connect();
+
+    const created = client.createLimitOrder('BTC', 'buy', '0.1', '65000');
+    const tpsl = client.setPositionTPSL('BTC', '70000');
+    await new Promise((resolve) => setImmediate(resolve));
+    const [create, setTpsl] = lastSocket().sent;
+
+    reply({ id: create.id, code: 200, data: { i: 'not-a-number' } });
+    reply({ id: setTpsl.id, code: 200, data: null });
+
+    await expect(created).rejects.toBeInstanceOf(ValidationError);
+    await expect(tpsl).resolves.toEqual({ success: true, data: null });
+  });
+
+  it('should time out or fail pending operations without a response', async () => {
+    await expect(client.cancelOrder(1)).rejects.toBeInstanceOf(TimeoutError);
+
+    const pending = client.cancelOrder(2);
+    await new Promise((resolve) => setImmediate(resolve));
+    lastSocket().close();
+
+    await expect(pending).rejects.toBeInstanceOf(NetworkError);
+  });
+});
+
+describe('WebSocketClient clock sampling', () => {
+  it('should sample server time from pong frames only, not from data timestamps', async () => {
+    const clockSync = new ClockSync();
+    const addSample = jest.spyOn(clockSync, 'addSample');
+    const client = new WebSocketClient({ reconnect: false, clockSync });
+    await client.connect();
+
+    reply({ type: 'trade', data: { timestamp: 1700000000000, price: '65000' } });
+    reply({ type: 'ticker', timestamp: 1700000000000 });
+    reply({ channel: 'pong', timestamp: 1700000005000 });
+    reply({ type: 'trade', server_time: 1700000006000, data: {} });
+
+    expect(addSample.mock.calls.map(([time]) => time)).toEqual([1700000005000, 1700000006000]);
+    client.disconnect();
+  });
+});
@@ -7,6 +7,7 @@ import {
   ApiResponse, 
   PaginatedResponse,
   MarketInfo, 
+  MarketSpec,
   Ticker, 
   OrderBook, 
   Trade, 
@@ -22,7 +23,45 @@ import {
   FundingHistoryItem,
   AccountEquityHistoryItem,
   AccountSettings,
+  CallOptions,
+  CandleInterval,
+  AccountInfo,
+  Balance,
+  AccountHistoryItem,
+  AccountSnapshot,
+  BuilderCodeApproval,
+  SnapshotSection,
+  NormalizedOrder,
+  NormalizedPosition,
+  NormalizedTrade,
 } from '../types';
+import { array } from '../utils/schema';
+import { normalizeOrder, normalizePosition, normalizeTrade } from '../utils/normalize';
+import { HistoryIteratorOptions, paginate } from '../utils/pagination';
+import { backfillCandles, CandleBackfillOptions, CandleBackfillResult } from '../utils/candles';
+import {
+  accountEquityHistoryItemSchema,
+  accountHistoryItemSchema,
+  accountInfoSchema,
+  balanceSchema,
+  accountSettingsSchema,
+  builderCodeApprovalSchema,
+  candleDataSchema,
+  fundingHistoryItemSchema,
+  historicalFundingSchema,
+  marketInfoSchema,
+  marketSpecSchema,
+  markPriceCandleDataSchema,
+  orderBookSchema,
+  orderSchema,
+  positionSchema,
+  priceDataSchema,
+  tickerSchema,
+  tradeHistoryItemSchema,
+  tradeSchema,
+  twapOrderSchema,
+} from '../utils/responseSchemas';
+import { UnsuccessfulResponseError } from '../errors';
 import { BaseClient } from './BaseClient';
 
 export class ApiClient extends BaseClient {
@@ -32,13 +71,15 @@ export class ApiClient extends BaseClient {
   /**
    * Get market information
    * Market data is available via WebSocket.
+   * Cached when a response cache is configured.
    */
-  async getMarketInfo(market?: string): Promise<ApiResponse<MarketInfo[]>> {
+  async getMarketInfo(market?: string, options?: CallOptions): Promise<ApiResponse<MarketInfo[]>> {
     const endpoint = market 
       ? `/markets/${market}`
       : '/markets';
     try {
-      return await this.get<MarketInfo[]>(endpoint);
+      const response = await this.get<MarketInfo[]>(endpoint, undefined, options, this.cache?.ttlFor('getMarketInfo'));
+      return this.validateResponse(response, array(marketInfoSchema), 'getMarketInfo');
     } catch (error: any) {
       if (error.status === 404) {
         throw new Error(
@@ -50,13 +91,22 @@ export class ApiClient extends BaseClient {
     }
   }
 
+  /**
+   * Get trading rules (tick size, lot size, minimum order size, max leverage) for every market
+   */
+  async getMarketSpecs(options?: CallOptions): Promise<ApiResponse<MarketSpec[]>> {
+    const response = await this.get<MarketSpec[]>('/info', undefined, options);
+    return this.validateResponse(response, array(marketSpecSchema), 'getMarketSpecs');
+  }
+
   /**
    * Get ticker information
    * Market data is available via WebSocket.
    */
-  async getTicker(market: string): Promise<ApiResponse<Ticker>> {
+  async getTicker(market: string, options?: CallOptions): Promise<ApiResponse<Ticker>> {
     try {
-      return await this.get<Ticker>(`/ticker/${market}`);
+      const response = await this.get<Ticker>(`/ticker/${market}`, undefined, options);
+      return this.validateResponse(response, tickerSchema, 'getTicker');
     } catch (error: any) {
       if (error.status === 404) {
         throw new Error(
@@ -72,9 +122,10 @@ export class ApiClient extends BaseClient {
    * Get all tickers
    * Market data is available via WebSocket.
    */
-  async getTickers(): Promise<ApiResponse<Ticker[]>> {
+  async getTickers(options?: CallOptions): Promise<ApiResponse<Ticker[]>> {
     try {
-      return await this.get<Ticker[]>('/tickers');
+      const response = await this.get<Ticker[]>('/tickers', undefined, options);
+      return this.validateResponse(response, array(tickerSchema), 'getTickers');
     } catch (error: any) {
       if (error.status === 404) {
         throw new Error(
@@ -90,10 +141,11 @@ export class ApiClient extends BaseClient {
    * Get order book
    * Market data is available via WebSocket.
    */
-  async getOrderBook(market: string, depth?: number): Promise<ApiResponse<OrderBook>> {
+  async getOrderBook(market: string, depth?: number, options?: CallOptions): Promise<ApiResponse<OrderBook>> {
     const params: Record<string, string> | undefined = depth ? { depth: depth.toString() } : undefined;
     try {
-      return await this.get<OrderBook>(`/orderbook/${market}`, params);
+      const response = await this.get<OrderBook>(`/orderbook/${market}`, params, options);
+      return this.validateResponse(response, orderBookSchema, 'getOrderBook');
     } catch (error: any) {
       if (error.status === 404) {
         throw new Error(
@@ -109,10 +161,11 @@ export class ApiClient extends BaseClient {
    * Get recent trades
    * Market data is available via WebSocket.
    */
-  async getTrades(market: string, limit?: number): Promise<ApiResponse<Trade[]>> {
+  async getTrades(market: string, limit?: number, options?: CallOptions): Promise<ApiResponse<NormalizedTrade[]>> {
     const params: Record<string, string> | undefined = limit ? { limit: limit.toString() } : undefined;
     try {
-      return await this.get<Trade[]>(`/trades/${market}`, params);
+      const response = await this.get<Trade[]>(`/trades/${market}`, params, options);
+      return this.normalizeList(this.validateResponse(response, array(tradeSchema), 'getTrades'), normalizeTrade, 'getTrades');
     } catch (error: any) {
       if (error.status === 404) {
         throw new Error(
@@ -126,15 +179,23 @@ export class ApiClient extends BaseClient {
 
   /**
    * Get account balance
+   * Without a currency, the USDC collateral balance is derived from getAccountInfo().
    */
-  async getBalance(account?: string, currency?: string): Promise<ApiResponse> {
+  async getBalance(account?: string, currency?: string, options?: CallOptions): Promise<ApiResponse<Balance>> {
     if (currency) {
       const endpoint = `/account/balance/${currency}`;
       const params: Record<string, string> | undefined = account ? { account } : undefined;
-      return this.get(endpoint, params);
+      const response = await this.get<Balance>(endpoint, params, options);
+      return this.validateResponse(response, balanceSchema, 'getBalance');
     }
     if (account) {
-      return this.getAccountInfo(account);
+      const response = await this.getAccountInfo(account, options);
+      return this.mapResponse(response, (info) => ({
+        currency: 'USDC',
+        balance: info.balance,
+        available_to_withdraw: info.available_to_withdraw,
+        pending_balance: info.pending_balance,
+      }));
     }
     throw new Error('Account parameter is required for getBalance()');
   }
@@ -142,10 +203,14 @@ export class ApiClient extends BaseClient {
   /**
    * Get open orders (all orders for account)
    */
-  async getOpenOrders(account: string, market?: string): Promise<ApiResponse<Order[]>> {
+  async getOpenOrders(account: string, market?: string, options?: CallOptions): Promise<ApiResponse<NormalizedOrder[]>> {
     const params: Record<string, string> = { account };
     if (market) params.market = market;
-    const response = await this.get<Order[]>('/orders', params);
+    const response = this.validateResponse(
+      await this.get<Order[]>('/orders', params, options),
+      array(orderSchema),
+      'getOpenOrders'
+    );
     if (response.success && Array.isArray(response.data)) {
       const orders = response.data;
       const openOrders = orders.filter((order: any) => {
@@ -153,45 +218,48 @@ export class ApiClient extends BaseClient {
         return status === 'open' || status === 'pending' || !status || 
                (order.filled_amount === '0' || order.filled_amount === 0);
       });
-      return { ...response, data: openOrders as Order[] };
+      return this.normalizeList({ ...response, data: openOrders }, normalizeOrder, 'getOpenOrders');
     }
-    return response;
+    return response as ApiResponse<any>;
   }
 
   /**
    * Get order history
    */
-  async getOrderHistory(account: string, market?: string, limit?: number): Promise<ApiResponse<Order[]>> {
+  async getOrderHistory(account: string, market?: string, limit?: number, options?: CallOptions): Promise<ApiResponse<NormalizedOrder[]>> {
     const params: Record<string, string> = { account };
     if (limit) params.limit = limit.toString();
-    return this.get<Order[]>('/orders/history', params);
+    const response = await this.get<Order[]>('/orders/history', params, options);
+    return this.normalizeList(this.validateResponse(response, array(orderSchema), 'getOrderHistory'), normalizeOrder, 'getOrderHistory');
   }
 
   /**
    * Get order by ID
    */
-  async getOrder(orderId: string): Promise<ApiResponse<Order>> {
-    return this.get<Order>(`/orders/${orderId}`);
+  async getOrder(orderId: string, options?: CallOptions): Promise<ApiResponse<NormalizedOrder>> {
+    const response = await this.get<Order>(`/orders/${orderId}`, undefined, options);
+    return this.normalizeItem(this.validateResponse(response, orderSchema, 'getOrder'), normalizeOrder, 'getOrder');
   }
 
   /**
    * Get positions
    */
-  async getPositions(account?: string, market?: string): Promise<ApiResponse<Position[]>> {
+  async getPositions(account?: string, market?: string, options?: CallOptions): Promise<ApiResponse<NormalizedPosition[]>> {
     const params: Record<string, string> = {};
     if (account) params.account = account;
     if (market) params.market = market;
-    return this.get<Position[]>('/positions', params);
+    const response = await this.get<Position[]>('/positions', params, options);
+    return this.normalizeList(this.validateResponse(response, array(positionSchema), 'getPositions'), normalizePosition, 'getPositions');
   }
 
   /**
    * Get position for a specific market
    * Note: This filters client-side from getPositions() as the API doesn't have a single-position endpoint
    */
-  async getPosition(market: string, account?: string): Promise<ApiResponse<Position>> {
-    const result = await this.getPositions(account, market);
+  async getPosition(market: string, account?: string, options?: CallOptions): Promise<ApiResponse<NormalizedPosition>> {
+    const result = await this.getPositions(account, market, options);
     if (result.success && result.data && Array.isArray(result.data)) {
-      const position = result.data.find((p: Position) => p.market === market);
+      const position = result.data.find((p) => p.symbol === market);
       if (position) {
         return { ...result, data: position };
       }
@@ -204,31 +272,58 @@ export class ApiClient extends BaseClient {
         },
       };
     }
-    return result as any;
+    return { ...result, data: undefined };
   }
 
   /**
    * Get account information
    */
-  async getAccountInfo(account: string): Promise<ApiResponse> {
+  async getAccountInfo(account: string, options?: CallOptions): Promise<ApiResponse<AccountInfo>> {
     if (!account) {
       throw new Error('Account parameter is required for getAccountInfo()');
     }
     const params: Record<string, string> = { account };
-    return this.get('/account', params);
+    const response = await this.get<AccountInfo>('/account', params, options);
+    return this.validateResponse(response, accountInfoSchema, 'getAccountInfo');
   }
 
   /**
    * Get account balance history
    */
-  async getAccountHistory(account: string, limit?: number, cursor?: string): Promise<ApiResponse> {
+  async getAccountHistory(
+    account: string,
+    limit?: number,
+    cursor?: string,
+    options?: CallOptions
+  ): Promise<PaginatedResponse<AccountHistoryItem>> {
     if (!account) {
       throw new Error('Account parameter is required for getAccountHistory()');
     }
     const params: Record<string, string> = { account };
     if (limit) params.limit = limit.toString();
     if (cursor) params.cursor = cursor;
-    return this.get('/account/balance/history', params);
+    const response = await this.get<AccountHistoryItem[]>('/account/balance/history', params, options);
+    return this.validateResponse(response, array(accountHistoryItemSchema), 'getAccountHistory') as PaginatedResponse<AccountHistoryItem>;
+  }
+
+  /**
+   * Iterate an account's balance history across pages.
+   * Time bounds are applied client-side; symbol is ignored.
+   * @param account Account public key
+   * @param options Time bounds, page size, max items, resume cursor and page callback
+   */
+  iterateAccountHistory(
+    account: string,
+    options?: HistoryIteratorOptions<AccountHistoryItem>
+  ): AsyncGenerator<AccountHistoryItem, void, undefined> {
+    if (!account) {
+      throw new Error('Account parameter is required for iterateAccountHistory()');
+    }
+    return paginate(
+      (cursor) => this.getAccountHistory(account, options?.pageSize, cursor, options?.callOptions),
+      (item) => item.created_at,
+      options
+    );
   }
 
   // TWAP Order Methods
@@ -236,22 +331,25 @@ export class ApiClient extends BaseClient {
   /**
    * Get open TWAP orders for an account
    */
-  async getOpenTWAPOrders(account: string): Promise<ApiResponse<TWAPOrder[]>> {
-    return this.get<TWAPOrder[]>('/orders/twap', { account });
+  async getOpenTWAPOrders(account: string, options?: CallOptions): Promise<ApiResponse<TWAPOrder[]>> {
+    const response = await this.get<TWAPOrder[]>('/orders/twap', { account }, options);
+    return this.validateResponse(response, array(twapOrderSchema), 'getOpenTWAPOrders');
   }
 
   /**
    * Get TWAP order history for an account
    */
-  async getTWAPOrderHistory(account: string): Promise<ApiResponse<TWAPOrder[]>> {
-    return this.get<TWAPOrder[]>('/orders/twap/history', { account });
+  async getTWAPOrderHistory(account: string, options?: CallOptions): Promise<ApiResponse<TWAPOrder[]>> {
+    const response = await this.get<TWAPOrder[]>('/orders/twap/history', { account }, options);
+    return this.validateResponse(response, array(twapOrderSchema), 'getTWAPOrderHistory');
   }
 
   /**
    * Get TWAP order history by order ID
    */
-  async getTWAPOrderHistoryById(orderId: string | number): Promise<ApiResponse<TWAPOrder>> {
-    return this.get<TWAPOrder>('/orders/twap/history_by_id', { order_id: orderId.toString() });
+  async getTWAPOrderHistoryById(orderId: string | number, options?: CallOptions): Promise<ApiResponse<TWAPOrder>> {
+    const response = await this.get<TWAPOrder>('/orders/twap/history_by_id', { order_id: orderId.toString() }, options);
+    return this.validateResponse(response, twapOrderSchema, 'getTWAPOrderHistoryById');
   }
 
   // Market Data Methods
@@ -259,10 +357,12 @@ export class ApiClient extends BaseClient {
   /**
    * Get price information for all symbols
    * Includes mark prices, funding rates, and market statistics
+   * Cached when a response cache is configured.
    */
-  async getPrices(symbol?: string): Promise<ApiResponse<PriceData[]>> {
+  async getPrices(symbol?: string, options?: CallOptions): Promise<ApiResponse<PriceData[]>> {
     const endpoint = symbol ? `/info/prices?symbol=${symbol}` : '/info/prices';
-    return this.get<PriceData[]>(endpoint);
+    const response = await this.get<PriceData[]>(endpoint, undefined, options, this.cache?.ttlFor('getPrices'));
+    return this.validateResponse(response, array(priceDataSchema), 'getPrices');
   }
 
   /**
@@ -272,13 +372,15 @@ export class ApiClient extends BaseClient {
    * @param startTime Start time in milliseconds
    * @param endTime End time in milliseconds (optional)
    * @param limit Number of candles to return (optional)
+   * @param options Per-call timeout and abort signal (optional)
    */
   async getCandleData(
     symbol: string,
     interval: string,
     startTime: number,
     endTime?: number,
-    limit?: number
+    limit?: number,
+    options?: CallOptions
   ): Promise<ApiResponse<CandleData[]>> {
     const params: Record<string, string> = {
       symbol,
@@ -287,7 +389,8 @@ export class ApiClient extends BaseClient {
     };
     if (endTime) params.end_time = endTime.toString();
     if (limit) params.limit = limit.toString();
-    return this.get<CandleData[]>('/kline', params);
+    const response = await this.get<CandleData[]>('/kline', params, options);
+    return this.validateResponse(response, array(candleDataSchema), 'getCandleData');
   }
 
   /**
@@ -297,13 +400,15 @@ export class ApiClient extends BaseClient {
    * @param startTime Start time in milliseconds
    * @param endTime End time in milliseconds (optional)
    * @param limit Number of candles to return (optional)
+   * @param options Per-call timeout and abort signal (optional)
    */
   async getMarkPriceCandleData(
     symbol: string,
     interval: string,
     startTime: number,
     endTime?: number,
-    limit?: number
+    limit?: number,
+    options?: CallOptions
   ): Promise<ApiResponse<MarkPriceCandleData[]>> {
     const params: Record<string, string> = {
       symbol,
@@ -312,7 +417,56 @@ export class ApiClient extends BaseClient {
     };
     if (endTime) params.end_time = endTime.toString();
     if (limit) params.limit = limit.toString();
-    return this.get<MarkPriceCandleData[]>('/kline/mark', params);
+    const response = await this.get<MarkPriceCandleData[]>('/kline/mark', params, options);
+    return this.validateResponse(response, array(markPriceCandleDataSchema), 'getMarkPriceCandleData');
+  }
+
+  /**
+   * Fetch every candle in [startTime, endTime), split into page-sized requests
+   * @param symbol Market symbol (e.g., 'BTC', 'ETH')
+   * @param interval Candle interval
+   * @param startTime Start time in milliseconds (aligned down to the interval)
+   * @param endTime End time in milliseconds (exclusive)
+   * @param options Page size, concurrency and per-request call options (optional)
+   */
+  async backfillCandleData(
+    symbol: string,
+    interval: CandleInterval,
+    startTime: number,
+    endTime: number,
+    options?: CandleBackfillOptions
+  ): Promise<CandleBackfillResult<CandleData>> {
+    return backfillCandles(
+      (range, pageSize) => this.getCandleData(symbol, interval, range.start, range.end, pageSize, options?.callOptions),
+      interval,
+      startTime,
+      endTime,
+      options
+    );
+  }
+
+  /**
+   * Fetch every mark price candle in [startTime, endTime), split into page-sized requests
+   * @param symbol Market symbol (e.g., 'BTC', 'ETH')
+   * @param interval Candle interval
+   * @param startTime Start time in milliseconds (aligned down to the interval)
+   * @param endTime End time in milliseconds (exclusive)
+   * @param options Page size, concurrency and per-request call options (optional)
+   */
+  async backfillMarkPriceCandleData(
+    symbol: string,
+    interval: CandleInterval,
+    startTime: number,
+    endTime: number,
+    options?: CandleBackfillOptions
+  ): Promise<CandleBackfillResult<MarkPriceCandleData>> {
+    return backfillCandles(
+      (range, pageSize) => this.getMarkPriceCandleData(symbol, interval, range.start, range.end, pageSize, options?.callOptions),
+      interval,
+      startTime,
+      endTime,
+      options
+    );
   }
 
   /**
@@ -321,19 +475,22 @@ export class ApiClient extends BaseClient {
    * @param startTime Start time in milliseconds (optional)
    * @param endTime End time in milliseconds (optional)
    * @param limit Number of results to return (optional)
+   * @param options Per-call timeout and abort signal (optional)
    */
   async getHistoricalFunding(
     symbol?: string,
     startTime?: number,
     endTime?: number,
-    limit?: number
+    limit?: number,
+    options?: CallOptions
   ): Promise<ApiResponse<HistoricalFunding[]>> {
     const params: Record<string, string> = {};
     if (symbol) params.symbol = symbol;
     if (startTime) params.start_time = startTime.toString();
     if (endTime) params.end_time = endTime.toString();
     if (limit) params.limit = limit.toString();
-    return this.get<HistoricalFunding[]>('/funding_rate/history', params);
+    const response = await this.get<HistoricalFunding[]>('/funding_rate/history', params, options);
+    return this.validateResponse(response, array(historicalFundingSchema), 'getHistoricalFunding');
   }
 
   // Account History Methods
@@ -346,6 +503,7 @@ export class ApiClient extends BaseClient {
    * @param endTime End time in milliseconds (optional)
    * @param limit Number of results to return (optional, default 100)
    * @param cursor Pagination cursor (optional)
+   * @param options Per-call timeout and abort signal (optional)
    */
   async getTradeHistory(
     account: string,
@@ -353,8 +511,9 @@ export class ApiClient extends BaseClient {
     startTime?: number,
     endTime?: number,
     limit?: number,
-    cursor?: string
-  ): Promise<PaginatedResponse<TradeHistoryItem>> {
+    cursor?: string,
+    options?: CallOptions
+  ): Promise<PaginatedResponse<NormalizedTrade>> {
     if (!account) {
       throw new Error('Account parameter is required for getTradeHistory()');
     }
@@ -364,7 +523,12 @@ export class ApiClient extends BaseClient {
     if (endTime) params.end_time = endTime.toString();
     if (limit) params.limit = limit.toString();
     if (cursor) params.cursor = cursor;
-    return this.get<PaginatedResponse<TradeHistoryItem>>('/trades/history', params) as any;
+    const response = await this.get<TradeHistoryItem[]>('/trades/history', params, options);
+    return this.normalizeList(
+      this.validateResponse(response, array(tradeHistoryItemSchema), 'getTradeHistory'),
+      normalizeTrade,
+      'getTradeHistory'
+    ) as PaginatedResponse<NormalizedTrade>;
   }
 
   /**
@@ -373,12 +537,14 @@ export class ApiClient extends BaseClient {
    * @param symbol Market symbol (optional)
    * @param limit Number of results to return (optional, default 100)
    * @param cursor Pagination cursor (optional)
+   * @param options Per-call timeout and abort signal (optional)
    */
   async getFundingHistory(
     account: string,
     symbol?: string,
     limit?: number,
-    cursor?: string
+    cursor?: string,
+    options?: CallOptions
   ): Promise<PaginatedResponse<FundingHistoryItem>> {
     if (!account) {
       throw new Error('Account parameter is required for getFundingHistory()');
@@ -387,7 +553,55 @@ export class ApiClient extends BaseClient {
     if (symbol) params.symbol = symbol;
     if (limit) params.limit = limit.toString();
     if (cursor) params.cursor = cursor;
-    return this.get<PaginatedResponse<FundingHistoryItem>>('/funding/history', params) as any;
+    const response = await this.get<FundingHistoryItem[]>('/funding/history', params, options);
+    return this.validateResponse(response, array(fundingHistoryItemSchema), 'getFundingHistory') as PaginatedResponse<FundingHistoryItem>;
+  }
+
+  /**
+   * Iterate an account's trade history across pages
+   * @param account Account public key
+   * @param options Symbol, time bounds, page size, max items, resume cursor and page callback
+   */
+  iterateTradeHistory(
+    account: string,
+    options?: HistoryIteratorOptions<NormalizedTrade>
+  ): AsyncGenerator<NormalizedTrade, void, undefined> {
+    if (!account) {
+      throw new Error('Account parameter is required for iterateTradeHistory()');
+    }
+    return paginate(
+      (cursor) => this.getTradeHistory(
+        account,
+        options?.symbol,
+        options?.startTime,
+        options?.endTime,
+        options?.pageSize,
+        cursor,
+        options?.callOptions
+      ),
+      (trade) => trade.timestamp,
+      options
+    );
+  }
+
+  /**
+   * Iterate an account's funding payments across pages.
+   * Time bounds are applied client-side.
+   * @param account Account public key
+   * @param options Symbol, time bounds, page size, max items, resume cursor and page callback
+   */
+  iterateFundingHistory(
+    account: string,
+    options?: HistoryIteratorOptions<FundingHistoryItem>
+  ): AsyncGenerator<FundingHistoryItem, void, undefined> {
+    if (!account) {
+      throw new Error('Account parameter is required for iterateFundingHistory()');
+    }
+    return paginate(
+      (cursor) => this.getFundingHistory(account, options?.symbol, options?.pageSize, cursor, options?.callOptions),
+      (item) => item.created_at,
+      options
+    );
   }
 
   /**
@@ -397,12 +611,14 @@ export class ApiClient extends BaseClient {
    * @param startTime Start time in milliseconds (optional, overrides timeRange if provided)
    * @param endTime End time in milliseconds (optional)
    * @param limit Number of results to return (optional)
+   * @param options Per-call timeout and abort signal (optional)
    */
   async getAccountEquityHistory(
     account: string,
     timeRangeOrStartTime?: string | number,
     endTime?: number,
-    limit?: number
+    limit?: number,
+    options?: CallOptions
   ): Promise<ApiResponse<AccountEquityHistoryItem[]>> {
     if (!account) {
       throw new Error('Account parameter is required for getAccountEquityHistory()');
@@ -422,19 +638,97 @@ export class ApiClient extends BaseClient {
     }
     
     if (limit) params.limit = limit.toString();
-    return this.get<AccountEquityHistoryItem[]>('/portfolio', params);
+    const response = await this.get<AccountEquityHistoryItem[]>('/portfolio', params, options);
+    return this.validateResponse(response, array(accountEquityHistoryItemSchema), 'getAccountEquityHistory');
   }
 
   /**
    * Get account settings (margin mode and leverage per symbol)
    * Returns only symbols with non-default settings
+   * Cached when a response cache is configured; leverage and margin updates invalidate it.
    * @param account Account public key
+   * @param options Per-call timeout and abort signal (optional)
    */
-  async getAccountSettings(account: string): Promise<ApiResponse<AccountSettings[]>> {
+  async getAccountSettings(account: string, options?: CallOptions): Promise<ApiResponse<AccountSettings[]>> {
     if (!account) {
       throw new Error('Account parameter is required for getAccountSettings()');
     }
-    return this.get<AccountSettings[]>('/account/settings', { account });
+    const response = await this.get<AccountSettings[]>(
+      '/account/settings',
+      { account },
+      options,
+      this.cache?.ttlFor('getAccountSettings')
+    );
+    return this.validateResponse(response, array(accountSettingsSchema), 'getAccountSettings');
+  }
+
+  /**
+   * Get builder codes the account has approved
+   */
+  async getBuilderCodeApprovals(account: string, options?: CallOptions): Promise<ApiResponse<BuilderCodeApproval[]>> {
+    if (!account) {
+      throw new Error('Account parameter is required for getBuilderCodeApprovals()');
+    }
+    const response = await this.get<BuilderCodeApproval[]>('/account/builder_codes/approvals', { account }, options);
+    return this.validateResponse(response, array(builderCodeApprovalSchema), 'getBuilderCodeApprovals');
+  }
+
+  /**
+   * Fetch account info, positions, open orders, open TWAPs, settings and builder approvals
+   * concurrently. A failing section is reported in place instead of failing the snapshot.
+   * @param account Account public key
+   * @param options Per-call timeout and abort signal (optional)
+   */
+  async getAccountSnapshot(account: string, options?: CallOptions): Promise<AccountSnapshot> {
+    if (!account) {
+      throw new Error('Account parameter is required for getAccountSnapshot()');
+    }
+
+    const [accountInfo, positions, openOrders, twapOrders, settings, builderApprovals] = await Promise.allSettled([
+      this.getAccountInfo(account, options),
+      this.getPositions(account, undefined, options),
+      this.getOpenOrders(account, undefined, options),
+      this.getOpenTWAPOrders(account, options),
+      this.getAccountSettings(account, options),
+      this.getBuilderCodeApprovals(account, options),
+    ]);
+
+    const snapshot = {
+      account,
+      fetchedAt: Date.now(),
+      accountInfo: toSection(accountInfo, 'accountInfo'),
+      positions: toSection(positions, 'positions'),
+      openOrders: toSection(openOrders, 'openOrders'),
+      twapOrders: toSection(twapOrders, 'twapOrders'),
+      settings: toSection(settings, 'settings'),
+      builderApprovals: toSection(builderApprovals, 'builderApprovals'),
+    };
+    const complete = [
+      snapshot.accountInfo,
+      snapshot.positions,
+      snapshot.openOrders,
+      snapshot.twapOrders,
+      snapshot.settings,
+      snapshot.builderApprovals,
+    ].every((section) => section.ok);
+    return { ...snapshot, complete };
   }
 }
 
+/**
+ * Turn a settled API call into a snapshot section; unsuccessful responses count as failures
+ */
+function toSection<T>(result: PromiseSettledResult<ApiResponse<T>>, name: string): SnapshotSection<T> {
+  if (result.status === 'rejected') {
+    const error = result.reason instanceof Error ? result.reason : new Error(String(result.reason));
+    return { ok: false, error };
+  }
+  const response = result.value;
+  if (!response.success || response.data === undefined || response.data === null) {
+    return {
+      ok: false,
+      error: new UnsuccessfulResponseError(response.error?.message ?? `No ${name} data returned`, response),
+    };
+  }
+  return { ok: true, data: response.data };
+}
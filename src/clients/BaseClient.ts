@@ -2,20 +2,52 @@
  * Base Client for HTTP requests
  */
 
-import { ApiResponse, PacificaConfig } from '../types';
+import { ApiResponse, CallOptions, PacificaConfig, ResponseValidationMode, Transport } from '../types';
 import {
   NetworkError,
-  TimeoutError,
   RateLimitError,
   APIError,
+  ValidationError,
+  parseApiError,
 } from '../errors';
-import { logger } from '../utils/logger';
+import { logger, Logger } from '../utils/logger';
+import { FetchTransport, NodeHttpTransport } from '../utils/transport';
+import { networkHeaders, resolveProxy } from '../utils/network';
+import { RateLimiter } from '../utils/rateLimiter';
+import { CircuitBreaker } from '../utils/circuitBreaker';
+import { ClockSync } from '../utils/clock';
+import { ResponseCache } from '../utils/cache';
+import { describeIssues, Schema, validateSchema } from '../utils/schema';
+import { Instrumentation } from '../utils/instrumentation';
+import {
+  Middleware,
+  RequestContext,
+  composeMiddleware,
+  retryMiddleware,
+  circuitBreakerMiddleware,
+  clockSyncMiddleware,
+  instrumentationMiddleware,
+  prepareMiddleware,
+  rateLimitMiddleware,
+  timeoutMiddleware,
+} from '../utils/middleware';
 
 export class BaseClient {
   protected baseUrl: string;
   protected timeout: number;
   protected retryAttempts: number;
   protected retryDelay: number;
+  protected transport: Transport;
+  protected rateLimiter?: RateLimiter;
+  protected circuitBreaker?: CircuitBreaker;
+  protected clockSync?: ClockSync;
+  protected cache?: ResponseCache;
+  protected responseValidation: ResponseValidationMode;
+  protected instrumentation?: Instrumentation;
+  protected logger: Logger;
+  private networkHeaders: Record<string, string>;
+  private middleware: Middleware[] = [];
+  private pipeline: (ctx: RequestContext) => Promise<ApiResponse<any>>;
 
   constructor(baseUrl?: string, timeout?: number, config?: PacificaConfig) {
     // baseUrl should include /api/v1, endpoints should not include it
@@ -35,253 +67,285 @@ export class BaseClient {
     this.timeout = timeout || 30000;
     this.retryAttempts = config?.retryAttempts ?? 3;
     this.retryDelay = config?.retryDelay ?? 1000;
+    // fetch ignores proxy environment variables, so a configured proxy needs the Node transport
+    this.transport = config?.transport
+      ?? (config?.network || resolveProxy(this.baseUrl)
+        ? new NodeHttpTransport(config?.network)
+        : new FetchTransport());
+    this.networkHeaders = networkHeaders(config?.network);
+    // Per-client logger: logLevel no longer changes the level of other clients
+    const baseLogger = config?.logger ?? (config?.logLevel ? new Logger({ level: config.logLevel }) : logger);
+    this.logger = baseLogger.child({ client: this.constructor.name });
+    this.rateLimiter = config?.rateLimiter
+      ?? (config?.enableRateLimit ? new RateLimiter(config.rateLimit) : undefined);
+    if (config?.circuitBreaker) {
+      this.circuitBreaker = config.circuitBreaker instanceof CircuitBreaker
+        ? config.circuitBreaker
+        : new CircuitBreaker({ logger: this.logger, ...config.circuitBreaker });
+    }
+    if (config?.clockSync) {
+      this.clockSync = config.clockSync instanceof ClockSync
+        ? config.clockSync
+        : new ClockSync({ logger: this.logger, ...config.clockSync });
+    }
+    this.responseValidation = config?.responseValidation ?? 'off';
+    this.instrumentation = config?.instrumentation;
+    if (config?.cache) {
+      this.cache = config.cache instanceof ResponseCache
+        ? config.cache
+        : new ResponseCache(config.cache);
+    }
 
-    if (config?.logLevel) {
-      logger.setLevel(config.logLevel);
+    this.pipeline = composeMiddleware(this.middleware, (ctx) => this.dispatch(ctx));
+
+    // Built-in stages, outermost first
+    this.use(retryMiddleware({
+      retryAttempts: this.retryAttempts,
+      retryDelay: this.retryDelay,
+      onRetry: (ctx, error, delayMs) => this.instrumentation?.record('retry', {
+        method: ctx.method,
+        endpoint: ctx.endpoint,
+        attempt: ctx.attempt + 1,
+        delayMs,
+        error: error?.name ?? 'Error',
+      }),
+    }));
+    if (this.circuitBreaker) {
+      this.use(circuitBreakerMiddleware(this.circuitBreaker));
+    }
+    if (this.rateLimiter) {
+      this.use(rateLimitMiddleware(this.rateLimiter));
+    }
+    if (this.instrumentation) {
+      this.use(instrumentationMiddleware(this.instrumentation));
     }
+    this.use(timeoutMiddleware());
+    if (this.clockSync) {
+      this.use(clockSyncMiddleware(this.clockSync));
+    }
+    this.use(prepareMiddleware());
   }
 
   /**
-   * Sleep helper for retries
+   * Register middleware on this client's request pipeline.
+   * Middleware runs in registration order, after the built-in retry, circuit
+   * breaker, rate limit and timeout stages, so it sees every attempt of a request.
+   * Signed requests are signed before it runs, so it sees the signed body of each attempt.
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
   }
 
   /**
-   * Check if error is retryable
+   * Make a GET request through the middleware pipeline.
+   * With a cache configured, identical concurrent GETs share one request and
+   * successful responses are kept for `cacheTtlMs`. Calls with an abort signal bypass the cache.
    */
-  private isRetryableError(error: any, status?: number): boolean {
-    // Network errors (fetch failures) are retryable
-    if (error instanceof NetworkError) {
-      return true;
-    }
-    // Generic errors from fetch (network issues) are retryable
-    if (error instanceof Error && !(error instanceof APIError) && !(error instanceof RateLimitError) && !(error instanceof TimeoutError)) {
-      // If it's a generic error and we don't have a status, it's likely a network error
-      if (!status) {
-        return true;
-      }
-    }
-    // 5xx errors are retryable
-    if (status && status >= 500) {
-      return true;
-    }
-    // Rate limit errors are retryable (handled separately)
-    if (status === 429) {
-      return true;
+  protected async get<T>(
+    endpoint: string,
+    params?: Record<string, string>,
+    options?: CallOptions,
+    cacheTtlMs: number = 0
+  ): Promise<ApiResponse<T>> {
+    const load = () => this.request<T>({ method: 'GET', endpoint, params, options });
+    if (!this.cache || options?.signal) {
+      return load();
     }
-    return false;
+
+    const query = params && Object.keys(params).length > 0
+      ? `?${new URLSearchParams(params).toString()}`
+      : '';
+    return this.cache.getOrLoad(this.cacheKey(`${endpoint}${query}`), cacheTtlMs, load, (response) => response.success);
   }
 
   /**
-   * Make a GET request with retry logic
+   * Cache key for an endpoint. Includes the base URL so clients for different
+   * environments can share one cache.
    */
-  protected async get<T>(
+  protected cacheKey(endpoint: string): string {
+    return `${this.baseUrl}${endpoint}`;
+  }
+
+  /**
+   * Make a POST request through the middleware pipeline
+   */
+  protected async post<T>(
     endpoint: string,
-    params?: Record<string, string>
+    body: any,
+    headers?: Record<string, string>,
+    options?: CallOptions
   ): Promise<ApiResponse<T>> {
-    let url = `${this.baseUrl}${endpoint}`;
+    return this.request<T>({ method: 'POST', endpoint, body, headers, options });
+  }
 
-    if (params && Object.keys(params).length > 0) {
-      const queryString = new URLSearchParams(params).toString();
+  /**
+   * Run a request through the middleware pipeline
+   */
+  protected async request<T>(init: {
+    method: 'GET' | 'POST';
+    endpoint: string;
+    params?: Record<string, string>;
+    body?: any;
+    headers?: Record<string, string>;
+    prepare?: RequestContext['prepare'];
+    options?: CallOptions;
+    logger?: Logger;
+  }): Promise<ApiResponse<T>> {
+    let url = `${this.baseUrl}${init.endpoint}`;
+
+    if (init.params && Object.keys(init.params).length > 0) {
+      const queryString = new URLSearchParams(init.params).toString();
       url += `?${queryString}`;
     }
 
-    let lastError: any;
-    let lastStatus: number | undefined;
-
-    for (let attempt = 0; attempt <= this.retryAttempts; attempt++) {
-      try {
-        if (attempt > 0) {
-          const delay = this.retryDelay * Math.pow(2, attempt - 1); // Exponential backoff
-          logger.debug(`Retrying GET ${endpoint} (attempt ${attempt + 1}/${this.retryAttempts + 1}) after ${delay}ms`);
-          await this.sleep(delay);
-        }
-
-        logger.debug(`GET ${url}`);
-
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-        const response = await fetch(url, {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          signal: controller.signal,
-        });
-
-        clearTimeout(timeoutId);
-        lastStatus = response.status;
-
-        if (response.status === 429) {
-          const retryAfter = response.headers.get('Retry-After');
-          const retryAfterMs = retryAfter ? parseInt(retryAfter) * 1000 : this.retryDelay * Math.pow(2, attempt);
-          throw new RateLimitError(
-            `Rate limit exceeded. Retry after ${retryAfterMs}ms`,
-            retryAfterMs
-          );
-        }
+    const ctx: RequestContext = {
+      method: init.method,
+      endpoint: init.endpoint,
+      url,
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.networkHeaders,
+        ...init.headers,
+      },
+      body: init.body,
+      attempt: 0,
+      timeout: init.options?.timeout ?? this.timeout,
+      signal: init.options?.signal,
+      metadata: {},
+      logger: init.logger ?? this.logger,
+      prepare: init.prepare,
+    };
+    return this.pipeline(ctx) as Promise<ApiResponse<T>>;
+  }
 
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({})) as any;
-          const errorMessage = errorData?.error?.message || `HTTP ${response.status}: ${response.statusText}`;
-          
-          // Don't retry on 4xx errors (except 429 which is handled above)
-          if (response.status >= 400 && response.status < 500) {
-            throw new APIError(errorMessage, response.status, errorData);
-          }
-          
-          // 5xx errors - throw but mark as retryable
-          throw new APIError(errorMessage, response.status, errorData);
-        }
+  /**
+   * Check a successful response's data against its schema.
+   * In strict mode the first invalid field is reported as a ValidationError;
+   * in lenient mode issues are logged and the response passes through.
+   */
+  protected validateResponse<T>(response: ApiResponse<T>, schema: Schema<T>, label: string): ApiResponse<T> {
+    if (this.responseValidation === 'off' || !response.success || response.data == null) {
+      return response;
+    }
 
-        const data = await response.json();
-        return data as ApiResponse<T>;
-      } catch (error: any) {
-        lastError = error;
+    const issues = validateSchema(response.data, schema, 'data');
+    if (issues.length === 0) {
+      return response;
+    }
 
-        if (error instanceof RateLimitError && attempt < this.retryAttempts) {
-          await this.sleep(error.retryAfter || this.retryDelay * Math.pow(2, attempt));
-          continue;
-        }
+    const message = describeIssues(issues, label);
 
-        if (error.name === 'AbortError') {
-          if (attempt < this.retryAttempts) {
-            continue;
-          }
-          throw new TimeoutError(`Request timeout after ${this.timeout}ms`);
-        }
+    if (this.responseValidation === 'strict') {
+      throw new ValidationError(message, issues[0].path);
+    }
+    this.logger.warn(message);
+    return response;
+  }
 
-        if (this.isRetryableError(error, lastStatus) && attempt < this.retryAttempts) {
-          continue;
-        }
+  /**
+   * Convert a successful response's data, leaving failed or empty responses untouched
+   */
+  protected mapResponse<T, U>(response: ApiResponse<T>, map: (data: T) => U): ApiResponse<U> {
+    if (!response.success || response.data == null) {
+      return response as unknown as ApiResponse<U>;
+    }
+    return { ...response, data: map(response.data) };
+  }
 
-        // Non-retryable or max attempts reached
-        if (error instanceof APIError || error instanceof RateLimitError || error instanceof TimeoutError) {
-          throw error;
-        }
+  /**
+   * Normalize each item of a successful list response.
+   * In strict mode a malformed item throws its ValidationError; otherwise it is logged and dropped.
+   */
+  protected normalizeList<T, U>(response: ApiResponse<T[]>, normalize: (item: T) => U, label: string): ApiResponse<U[]> {
+    return this.mapResponse(response, (items) => items.flatMap((item, index) => {
+      const normalized = this.tryNormalize(item, normalize, `${label} data[${index}]`);
+      return normalized === undefined ? [] : [normalized];
+    }));
+  }
 
-        if (lastStatus) {
-          throw new APIError(error.message || 'Request failed', lastStatus);
-        }
+  /**
+   * Normalize the data of a successful single-item response.
+   * In strict mode a malformed item throws its ValidationError; otherwise it is logged and the data left empty.
+   */
+  protected normalizeItem<T, U>(response: ApiResponse<T>, normalize: (item: T) => U, label: string): ApiResponse<U> {
+    if (!response.success || response.data == null) {
+      return response as unknown as ApiResponse<U>;
+    }
+    return { ...response, data: this.tryNormalize(response.data, normalize, `${label} data`) };
+  }
 
-        throw new NetworkError(error.message || 'Network request failed', error);
+  private tryNormalize<T, U>(item: T, normalize: (item: T) => U, label: string): U | undefined {
+    try {
+      return normalize(item);
+    } catch (error) {
+      if (this.responseValidation === 'strict' || !(error instanceof ValidationError)) {
+        throw error;
       }
+      this.logger.warn(`Dropped malformed ${label}: ${error.message}`);
+      return undefined;
     }
-
-    throw lastError;
   }
 
   /**
-   * Make a POST request with retry logic
+   * Send a single attempt over the transport and parse the response.
+   * This is the innermost stage of the pipeline.
    */
-  protected async post<T>(
-    endpoint: string,
-    body: any,
-    headers?: Record<string, string>
-  ): Promise<ApiResponse<T>> {
-    const url = `${this.baseUrl}${endpoint}`;
-
-    const defaultHeaders: Record<string, string> = {
-      'Content-Type': 'application/json',
-      ...headers,
-    };
+  private async dispatch(ctx: RequestContext): Promise<ApiResponse<any>> {
+    (ctx.logger ?? this.logger).debug(`${ctx.method} ${ctx.url}`);
+
+    let response;
+    try {
+      response = await this.transport.request({
+        method: ctx.method,
+        url: ctx.url,
+        headers: ctx.headers,
+        body: ctx.body !== undefined ? JSON.stringify(ctx.body) : undefined,
+        signal: ctx.signal,
+      });
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        throw error;
+      }
+      throw new NetworkError(error?.message || 'Network request failed', error);
+    }
 
-    let lastError: any;
-    let lastStatus: number | undefined;
+    ctx.response = { status: response.status, headers: response.headers };
+
+    if (response.status === 429) {
+      const retryAfter = response.headers.get('Retry-After');
+      const retryAfterMs = retryAfter ? parseInt(retryAfter) * 1000 : undefined;
+      throw new RateLimitError(
+        retryAfterMs !== undefined
+          ? `Rate limit exceeded. Retry after ${retryAfterMs}ms`
+          : 'Rate limit exceeded',
+        retryAfterMs
+      );
+    }
 
-    for (let attempt = 0; attempt <= this.retryAttempts; attempt++) {
+    if (!response.ok) {
+      let errorData: any;
       try {
-        if (attempt > 0) {
-          const delay = this.retryDelay * Math.pow(2, attempt - 1); // Exponential backoff
-          logger.debug(`Retrying POST ${endpoint} (attempt ${attempt + 1}/${this.retryAttempts + 1}) after ${delay}ms`);
-          await this.sleep(delay);
+        const errorText = await response.text();
+        try {
+          errorData = errorText ? JSON.parse(errorText) : {};
+        } catch {
+          errorData = { error: { message: errorText || response.statusText } };
         }
-
-        logger.debug(`POST ${url}`);
-
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-        const response = await fetch(url, {
-          method: 'POST',
-          headers: defaultHeaders,
-          body: JSON.stringify(body),
-          signal: controller.signal,
-        });
-
-        clearTimeout(timeoutId);
-        lastStatus = response.status;
-
-        if (response.status === 429) {
-          const retryAfter = response.headers.get('Retry-After');
-          const retryAfterMs = retryAfter ? parseInt(retryAfter) * 1000 : this.retryDelay * Math.pow(2, attempt);
-          throw new RateLimitError(
-            `Rate limit exceeded. Retry after ${retryAfterMs}ms`,
-            retryAfterMs
-          );
-        }
-
-        if (!response.ok) {
-          let errorData: any;
-          let errorText: string = '';
-          try {
-            errorText = await response.text();
-            try {
-              errorData = errorText ? JSON.parse(errorText) : {};
-            } catch (parseError) {
-              errorData = { error: { message: errorText || response.statusText } };
-            }
-          } catch {
-            errorData = { error: { message: response.statusText } };
-          }
-          
-          const errorMessage = errorData?.error?.message || errorData?.message || response.statusText;
-          
-          if (response.status === 401 || response.status === 403) {
-            throw new APIError(errorMessage, response.status, errorData);
-          }
-          
-          throw new APIError(errorMessage, response.status, errorData);
-        }
-
-        const data = await response.json();
-        return data as ApiResponse<T>;
-      } catch (error: any) {
-        lastError = error;
-
-        if (error instanceof RateLimitError && attempt < this.retryAttempts) {
-          await this.sleep(error.retryAfter || this.retryDelay * Math.pow(2, attempt));
-          continue;
-        }
-
-        if (error.name === 'AbortError') {
-          if (attempt < this.retryAttempts) {
-            continue;
-          }
-          throw new TimeoutError(`Request timeout after ${this.timeout}ms`);
-        }
-
-        if (this.isRetryableError(error, lastStatus) && attempt < this.retryAttempts) {
-          continue;
-        }
-
-        // Non-retryable or max attempts reached
-        if (error instanceof APIError || error instanceof RateLimitError || error instanceof TimeoutError) {
-          throw error;
-        }
-
-        if (lastStatus) {
-          throw new APIError(error.message || 'Request failed', lastStatus);
-        }
-
-        throw new NetworkError(error.message || 'Network request failed', error);
+      } catch {
+        errorData = { error: { message: response.statusText } };
       }
+
+      const errorMessage = errorData?.error?.message
+        || errorData?.message
+        || `HTTP ${response.status}: ${response.statusText}`;
+      throw parseApiError(errorMessage, response.status, errorData);
     }
 
-    throw lastError;
+    try {
+      return await response.json();
+    } catch (error: any) {
+      throw new APIError('Invalid JSON response', response.status, undefined, { cause: error });
+    }
   }
 }
-
@@ -31,9 +31,60 @@ import {
   ApproveBuilderCodeParams,
   RevokeBuilderCodeParams,
   ApiResponse,
+  CallOptions,
+  PacificaConfig,
+  Order,
+  Position,
+  PriceData,
+  NormalizedOrder,
+  NormalizedPosition,
+  AccountInfo,
+  Balance,
+  CreateOrderResult,
+  CancelResult,
+  BatchOrderResult,
+  WithdrawResult,
+  SubaccountResult,
+  ClosePositionResult,
+  CloseAllPositionsParams,
+  CloseAllPositionsResult,
+  OrderSide,
+  AckResult,
+  ApiKeyResult,
+  ApiKeyList,
+  AgentWalletInfo,
+  AgentIPWhitelist,
+  BuilderCodeApproval,
 } from '../types';
 import { buildSignedRequest, buildSignedRequestWithHardwareWallet } from '../utils/signer';
+import { array } from '../utils/schema';
+import { Decimal } from '../utils/decimal';
+import { MarketRegistry } from '../utils/markets';
+import { sleep } from '../utils/middleware';
+import { normalizeOrder, normalizePosition } from '../utils/normalize';
+import { RequestAbortedError, UnsuccessfulResponseError, ValidationError } from '../errors';
+import {
+  accountInfoSchema,
+  ackResultSchema,
+  agentIPWhitelistSchema,
+  agentWalletInfoSchema,
+  apiKeyListSchema,
+  apiKeyResultSchema,
+  balanceSchema,
+  batchOrderResultSchema,
+  builderCodeApprovalSchema,
+  cancelResultSchema,
+  createOrderResultSchema,
+  orderSchema,
+  positionSchema,
+  subaccountResultSchema,
+  withdrawResultSchema,
+} from '../utils/responseSchemas';
 import { BaseClient } from './BaseClient';
+import { ApiClient } from './ApiClient';
+
+const DEFAULT_CLOSE_SLIPPAGE = '0.5';
+const CLOSE_CONFIRM_INTERVAL_MS = 250;
 
 export class SignClient extends BaseClient {
   private privateKey: string | Uint8Array;
@@ -41,19 +92,15 @@ export class SignClient extends BaseClient {
   private agentWalletPublicKey?: string;
   private defaultExpiryWindow: number = 5000; // 5 seconds in milliseconds
   private builderCode?: string; // Optional builder code from env or config
+  private markets?: MarketRegistry; // Market specs for pre-flight checks
 
   constructor(
     privateKey: string | Uint8Array,
-    config?: {
-      baseUrl?: string;
+    config?: PacificaConfig & {
       accountPublicKey?: string;
       agentWalletPublicKey?: string;
       builderCode?: string; // Optional builder code
       expiryWindow?: number;
-      timeout?: number;
-      retryAttempts?: number;
-      retryDelay?: number;
-      logLevel?: 'debug' | 'info' | 'warn' | 'error' | 'silent';
     }
   ) {
     super(config?.baseUrl, config?.timeout, config);
@@ -65,6 +112,11 @@ export class SignClient extends BaseClient {
     if (config?.expiryWindow !== undefined) {
       this.defaultExpiryWindow = config.expiryWindow;
     }
+    if (config?.markets) {
+      this.markets = config.markets instanceof MarketRegistry
+        ? config.markets
+        : new MarketRegistry(new ApiClient({ ...config, markets: undefined }), { logger: this.logger, ...config.markets });
+    }
   }
 
   /**
@@ -97,57 +149,141 @@ export class SignClient extends BaseClient {
       accountPublicKey = publicKeyToHex(keypair.publicKey);
     }
 
-    // Check if using hardware wallet
-    if (options?.hardware_wallet_path && accountPublicKey) {
-      const signedRequest = await buildSignedRequestWithHardwareWallet(
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+
+    // Add agent_wallet header if using agent wallet
+    if (isUsingAgentWallet) {
+      headers['agent_wallet'] = agentWalletPublicKey!;
+    }
+
+    // Sign right before each attempt is sent, so retries never replay a stale timestamp
+    const signBody = async (): Promise<Record<string, any>> => {
+      // Check if using hardware wallet
+      if (options?.hardware_wallet_path && accountPublicKey) {
+        return buildSignedRequestWithHardwareWallet(
+          operation,
+          data,
+          accountPublicKey,
+          options.hardware_wallet_path,
+          this.defaultExpiryWindow,
+          this.clockSync?.now()
+        );
+      }
+
+      // Always sign with the provided private key (which should be agent wallet key if using agent)
+      const signedRequest = await buildSignedRequest(
         operation,
         data,
-        accountPublicKey,
-        options.hardware_wallet_path,
-        this.defaultExpiryWindow
+        this.privateKey,
+        accountPublicKey, // Use original account public key for 'account' field
+        this.defaultExpiryWindow,
+        this.clockSync?.now()
       );
 
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
+      // Flatten the request: { account, signature, timestamp, expiry_window, ...data }
+      // Remove 'operation' and 'data' fields, flatten everything
+      return {
+        account: signedRequest.account,
+        signature: signedRequest.signature,
+        timestamp: signedRequest.timestamp,
+        ...(signedRequest.expiry_window !== undefined && { expiry_window: signedRequest.expiry_window }),
+        ...data, // Flatten data fields to top level
       };
+    };
+
+    return this.request<T>({
+      method: 'POST',
+      endpoint,
+      headers,
+      prepare: async (ctx) => {
+        ctx.body = await signBody();
+      },
+      options,
+      logger: this.logger.child({
+        account: accountPublicKey,
+        operation,
+        client_order_id: data.client_order_id,
+      }),
+    });
+  }
 
-      // Add agent_wallet header if using agent wallet
-      if (isUsingAgentWallet) {
-        headers['agent_wallet'] = agentWalletPublicKey!;
+  /**
+   * Parse decimal string fields exactly and write them back in plain notation,
+   * so values like '1e-5' or '0.10' are signed as '0.00001' and '0.1'
+   */
+  private normalizeDecimals<T extends Record<string, any>>(params: T, fields: (keyof T & string)[]): T {
+    const normalized: Record<string, any> = { ...params };
+    for (const field of fields) {
+      if (normalized[field] !== undefined && normalized[field] !== null) {
+        const value = Decimal.tryFrom(normalized[field]);
+        if (!value) {
+          throw new Error(`Invalid ${field}: ${normalized[field]}`);
+        }
+        normalized[field] = value.toString();
       }
+    }
+    return normalized as T;
+  }
 
-      return this.post<T>(endpoint, signedRequest, headers);
+  /**
+   * Check an order against the market's specs before signing it.
+   * Market orders are valued at the current mark price for the minimum order size check.
+   * Does nothing unless a MarketRegistry is configured.
+   */
+  private async preflightOrder(params: CreateOrderParams, options?: RequestOptions): Promise<void> {
+    if (!this.markets) {
+      return;
     }
+    await this.markets.ensureLoaded();
 
-    // Always sign with the provided private key (which should be agent wallet key if using agent)
-    const signedRequest = await buildSignedRequest(
-      operation,
-      data,
-      this.privateKey,
-      accountPublicKey, // Use original account public key for 'account' field
-      this.defaultExpiryWindow
-    );
-
-    // Flatten the request: { account, signature, timestamp, expiry_window, ...data }
-    // Remove 'operation' and 'data' fields, flatten everything
-    const requestBody = {
-      account: signedRequest.account,
-      signature: signedRequest.signature,
-      timestamp: signedRequest.timestamp,
-      ...(signedRequest.expiry_window !== undefined && { expiry_window: signedRequest.expiry_window }),
-      ...data, // Flatten data fields to top level
-    };
+    const symbol = params.symbol ?? params.market ?? '';
+    const spec = this.markets.get(symbol);
+    if (!spec) {
+      throw new ValidationError(`Unknown market: ${symbol}`, 'symbol');
+    }
+    if (!this.markets.isTradable(symbol)) {
+      throw new ValidationError(`Market ${symbol} is not open for trading (status: ${spec.status})`, 'symbol');
+    }
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
+    const amountField = params.amount !== undefined ? 'amount' : 'size';
+    const amount = Decimal.from((params.amount ?? params.size)!);
+    if (!amount.isMultipleOf(spec.lot_size)) {
+      throw new ValidationError(`Order ${amountField} ${amount} is not a multiple of lot size ${spec.lot_size}`, amountField);
+    }
+    if (params.price !== undefined && !Decimal.from(params.price).isMultipleOf(spec.tick_size)) {
+      throw new ValidationError(`Order price ${params.price} is not a multiple of tick size ${spec.tick_size}`, 'price');
+    }
 
-    // Add agent_wallet header if using agent wallet
-    if (isUsingAgentWallet) {
-      headers['agent_wallet'] = agentWalletPublicKey!;
+    const price = params.price !== undefined ? Decimal.from(params.price) : await this.markPrice(symbol, options);
+    if (price && amount.times(price).lt(spec.min_order_size)) {
+      throw new ValidationError(
+        `Order value ${amount.times(price)} is below the minimum order size ${spec.min_order_size}`,
+        amountField
+      );
     }
+  }
 
-    return await this.post<T>(endpoint, requestBody, headers);
+  /**
+   * Current mark price of a market, or undefined if it cannot be read
+   */
+  private async markPrice(symbol: string, options?: RequestOptions): Promise<Decimal | undefined> {
+    try {
+      const response = await this.get<PriceData[]>('/info/prices', undefined, options, this.cache?.ttlFor('getPrices'));
+      const price = response.data?.find((item) => item.symbol === symbol);
+      const mark = Decimal.tryFrom(price?.mark ?? price?.mid);
+      if (mark) {
+        return mark;
+      }
+      this.logger.warn(`No mark price for ${symbol}; skipping the minimum order size check`);
+    } catch (error: any) {
+      if (error instanceof RequestAbortedError) {
+        throw error;
+      }
+      this.logger.warn(`Could not read the mark price of ${symbol}; skipping the minimum order size check: ${error?.message}`);
+    }
+    return undefined;
   }
 
   /**
@@ -166,7 +302,7 @@ export class SignClient extends BaseClient {
    * Unified order creation method - routes to appropriate endpoint based on order_type
    * Supports limit, market, and TWAP orders with SL/TP
    */
-  async createOrder(params: CreateOrderParams, options?: RequestOptions): Promise<ApiResponse> {
+  async createOrder(params: CreateOrderParams, options?: RequestOptions): Promise<ApiResponse<CreateOrderResult>> {
     const orderType = params.order_type || 'limit';
 
     switch (orderType) {
@@ -184,7 +320,7 @@ export class SignClient extends BaseClient {
   /**
    * Create a limit order
    */
-  async createLimitOrder(params: CreateOrderParams, options?: RequestOptions): Promise<ApiResponse> {
+  async createLimitOrder(params: CreateOrderParams, options?: RequestOptions): Promise<ApiResponse<CreateOrderResult>> {
     if (!params.side) {
       throw new Error('Order side is required');
     }
@@ -194,24 +330,27 @@ export class SignClient extends BaseClient {
     if (!params.price) {
       throw new Error('Price is required for limit orders');
     }
-    if (parseFloat(params.price) <= 0) {
-      throw new Error('Order price must be greater than 0');
-    }
 
     const { order_type, ...limitParams } = params;
-    const paramsWithBuilder = this.mergeBuilderCode(limitParams);
-    return this.makeSignedRequest(
+    const exactParams = this.normalizeDecimals(limitParams, ['amount', 'size', 'price']);
+    if (!Decimal.from(exactParams.price!).isPositive()) {
+      throw new Error('Order price must be greater than 0');
+    }
+    await this.preflightOrder(exactParams, options);
+    const paramsWithBuilder = this.mergeBuilderCode(exactParams);
+    const response = await this.makeSignedRequest<CreateOrderResult>(
       '/orders/create',
       'create_order',
       paramsWithBuilder,
       options
     );
+    return this.validateResponse(response, createOrderResultSchema, 'createLimitOrder');
   }
 
   /**
    * Create a market order
    */
-  async createMarketOrder(params: CreateOrderParams, options?: RequestOptions): Promise<ApiResponse> {
+  async createMarketOrder(params: CreateOrderParams, options?: RequestOptions): Promise<ApiResponse<CreateOrderResult>> {
     if (!params.side) {
       throw new Error('Order side is required');
     }
@@ -223,38 +362,44 @@ export class SignClient extends BaseClient {
     }
 
     const { order_type, ...marketParams } = params;
-    const paramsWithBuilder = this.mergeBuilderCode(marketParams);
-    return this.makeSignedRequest(
+    const exactParams = this.normalizeDecimals(marketParams, ['amount', 'size', 'slippage_percent']);
+    await this.preflightOrder(exactParams, options);
+    const paramsWithBuilder = this.mergeBuilderCode(exactParams);
+    const response = await this.makeSignedRequest<CreateOrderResult>(
       '/orders/create_market',
       'create_market_order',
       paramsWithBuilder,
       options
     );
+    return this.validateResponse(response, createOrderResultSchema, 'createMarketOrder');
   }
 
   /**
    * Create a stop order
    */
-  async createStopOrder(params: CreateStopOrderParams, options?: RequestOptions): Promise<ApiResponse> {
-    const paramsWithBuilder = this.mergeBuilderCode(params);
-    return this.makeSignedRequest(
+  async createStopOrder(params: CreateStopOrderParams, options?: RequestOptions): Promise<ApiResponse<CreateOrderResult>> {
+    const exactParams = this.normalizeDecimals(params, ['size', 'stop_price', 'price']);
+    const paramsWithBuilder = this.mergeBuilderCode(exactParams);
+    const response = await this.makeSignedRequest<CreateOrderResult>(
       '/api/v1/orders/stop/create',
       'create_stop_order',
       paramsWithBuilder,
       options
     );
+    return this.validateResponse(response, createOrderResultSchema, 'createStopOrder');
   }
 
   /**
    * Cancel an order
    */
-  async cancelOrder(params: CancelOrderParams, options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async cancelOrder(params: CancelOrderParams, options?: RequestOptions): Promise<ApiResponse<CancelResult>> {
+    const response = await this.makeSignedRequest<CancelResult>(
       '/orders/cancel',
       'cancel_order',
       params,
       options
     );
+    return this.validateResponse(response, cancelResultSchema, 'cancelOrder');
   }
 
   /**
@@ -263,7 +408,7 @@ export class SignClient extends BaseClient {
    * The new order maintains the same side, reduce-only status, and client_order_id
    * @param params EditOrderParams with order_id or client_order_id, and updated price/amount
    */
-  async editOrder(params: EditOrderParams, options?: RequestOptions): Promise<ApiResponse> {
+  async editOrder(params: EditOrderParams, options?: RequestOptions): Promise<ApiResponse<CreateOrderResult>> {
     // Validate that we have either order_id or client_order_id
     if (!params.order_id && !params.client_order_id) {
       throw new Error('Either order_id or client_order_id is required for editOrder');
@@ -278,43 +423,47 @@ export class SignClient extends BaseClient {
       throw new Error('Symbol is required for editOrder');
     }
 
-    return this.makeSignedRequest(
+    const exactParams = this.normalizeDecimals(params, ['price', 'amount']);
+    const response = await this.makeSignedRequest<CreateOrderResult>(
       '/orders/edit',
       'edit_order',
-      params,
+      exactParams,
       options
     );
+    return this.validateResponse(response, createOrderResultSchema, 'editOrder');
   }
 
   /**
    * Cancel all orders
    */
-  async cancelAllOrders(market?: string, options?: RequestOptions): Promise<ApiResponse> {
+  async cancelAllOrders(market?: string, options?: RequestOptions): Promise<ApiResponse<CancelResult>> {
     const data = market ? { market } : {};
-    return this.makeSignedRequest(
+    const response = await this.makeSignedRequest<CancelResult>(
       '/orders/cancel_all',
       'cancel_all_orders',
       data,
       options
     );
+    return this.validateResponse(response, cancelResultSchema, 'cancelAllOrders');
   }
 
   /**
    * Cancel a stop order
    */
-  async cancelStopOrder(params: CancelOrderParams, options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async cancelStopOrder(params: CancelOrderParams, options?: RequestOptions): Promise<ApiResponse<CancelResult>> {
+    const response = await this.makeSignedRequest<CancelResult>(
       '/orders/stop/cancel',
       'cancel_stop_order',
       params,
       options
     );
+    return this.validateResponse(response, cancelResultSchema, 'cancelStopOrder');
   }
 
   /**
    * Create a TWAP (Time-Weighted Average Price) order
    */
-  async createTWAPOrder(params: CreateTWAPOrderParams, options?: RequestOptions): Promise<ApiResponse> {
+  async createTWAPOrder(params: CreateTWAPOrderParams, options?: RequestOptions): Promise<ApiResponse<CreateOrderResult>> {
     if (!params.side) {
       throw new Error('Order side is required');
     }
@@ -328,34 +477,36 @@ export class SignClient extends BaseClient {
       throw new Error('duration_in_seconds is required for TWAP orders');
     }
 
-    const paramsWithBuilder = this.mergeBuilderCode(params);
-    return this.makeSignedRequest(
+    const exactParams = this.normalizeDecimals(params, ['amount', 'slippage_percent']);
+    const paramsWithBuilder = this.mergeBuilderCode(exactParams);
+    const response = await this.makeSignedRequest<CreateOrderResult>(
       '/orders/twap/create',
       'create_twap_order',
       paramsWithBuilder,
       options
     );
+    return this.validateResponse(response, createOrderResultSchema, 'createTWAPOrder');
   }
 
   /**
    * Cancel a TWAP order
    */
-  async cancelTWAPOrder(params: CancelTWAPOrderParams, options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async cancelTWAPOrder(params: CancelTWAPOrderParams, options?: RequestOptions): Promise<ApiResponse<CancelResult>> {
+    const response = await this.makeSignedRequest<CancelResult>(
       '/orders/twap/cancel',
       'cancel_twap_order',
       params,
       options
     );
+    return this.validateResponse(response, cancelResultSchema, 'cancelTWAPOrder');
   }
 
   /**
    * Batch orders - execute multiple order operations in a single request
    */
-  async batchOrders(actions: BatchOrderAction[], options?: RequestOptions): Promise<ApiResponse> {
+  async batchOrders(actions: BatchOrderAction[], options?: RequestOptions): Promise<ApiResponse<BatchOrderResult>> {
     // Batch endpoint doesn't use the standard signed request format
-    // Each action needs to be individually signed with the same timestamp
-    const timestamp = Math.floor(Date.now() / 1000);
+    // Each action needs to be individually signed
     const expiryWindow = this.defaultExpiryWindow;
 
     let accountPublicKey = this.accountPublicKey;
@@ -365,8 +516,12 @@ export class SignClient extends BaseClient {
       accountPublicKey = publicKeyToHex(keypair.publicKey);
     }
 
-    const signedActions = await Promise.all(
-      actions.map(async (action) => {
+    const exactActions = actions.map((action) => action.type === 'Create'
+      ? { ...action, data: this.normalizeDecimals(action.data, ['amount', 'size', 'price', 'slippage_percent']) }
+      : action);
+
+    const signActions = () => Promise.all(
+      exactActions.map(async (action) => {
         const operation: OperationType = action.type === 'Create' 
           ? 'create_order' 
           : 'cancel_order';
@@ -376,7 +531,8 @@ export class SignClient extends BaseClient {
           action.data,
           this.privateKey,
           accountPublicKey,
-          expiryWindow
+          expiryWindow,
+          this.clockSync?.now()
         );
 
         // Build the final request with proper structure (includes all fields from data)
@@ -404,7 +560,18 @@ export class SignClient extends BaseClient {
       headers['agent_wallet'] = agentWalletPublicKey;
     }
 
-    return this.post('/orders/batch', { actions: signedActions }, headers);
+    // Re-sign every action before each attempt
+    const response = await this.request<BatchOrderResult>({
+      method: 'POST',
+      endpoint: '/orders/batch',
+      headers,
+      prepare: async (ctx) => {
+        ctx.body = { actions: await signActions() };
+      },
+      options,
+      logger: this.logger.child({ account: accountPublicKey, operation: 'batch_orders' }),
+    });
+    return this.validateResponse(response, batchOrderResultSchema, 'batchOrders');
   }
 
   // Account Management Methods
@@ -412,84 +579,105 @@ export class SignClient extends BaseClient {
   /**
    * Update account leverage
    */
-  async updateLeverage(params: UpdateLeverageParams, options?: RequestOptions): Promise<ApiResponse> {
+  async updateLeverage(params: UpdateLeverageParams, options?: RequestOptions): Promise<ApiResponse<AckResult>> {
+    if (this.markets) {
+      await this.markets.ensureLoaded();
+      const spec = this.markets.get(params.market);
+      if (!spec) {
+        throw new ValidationError(`Unknown market: ${params.market}`, 'market');
+      }
+      if (params.leverage > spec.max_leverage) {
+        throw new ValidationError(
+          `Leverage ${params.leverage} exceeds the maximum ${spec.max_leverage} for ${params.market}`,
+          'leverage'
+        );
+      }
+    }
     // API expects 'symbol' not 'market'
     const payload: any = {
       symbol: params.market,
       leverage: params.leverage,
     };
-    return this.makeSignedRequest(
+    const result = await this.makeSignedRequest<AckResult>(
       '/account/leverage',
       'update_leverage',
       payload,
       options
     );
+    this.cache?.invalidate(this.cacheKey('/account/settings'));
+    return this.validateResponse(result, ackResultSchema, 'updateLeverage');
   }
 
   /**
    * Update margin mode
    */
-  async updateMarginMode(params: UpdateMarginModeParams, options?: RequestOptions): Promise<ApiResponse> {
+  async updateMarginMode(params: UpdateMarginModeParams, options?: RequestOptions): Promise<ApiResponse<AckResult>> {
     // API expects 'symbol' not 'market'
     const payload: any = {
       symbol: params.market,
       margin_mode: params.margin_mode,
     };
-    return this.makeSignedRequest(
+    const result = await this.makeSignedRequest<AckResult>(
       '/account/margin',
       'update_margin_mode',
       payload,
       options
     );
+    this.cache?.invalidate(this.cacheKey('/account/settings'));
+    return this.validateResponse(result, ackResultSchema, 'updateMarginMode');
   }
 
   /**
    * Withdraw funds
    */
-  async withdraw(params: WithdrawParams, options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async withdraw(params: WithdrawParams, options?: RequestOptions): Promise<ApiResponse<WithdrawResult>> {
+    const response = await this.makeSignedRequest<WithdrawResult>(
       '/api/v1/account/withdraw',
       'withdraw',
       params,
       options
     );
+    return this.validateResponse(response, withdrawResultSchema, 'withdraw');
   }
 
   /**
    * Create API key
    */
-  async createApiKey(permissions?: string[], options?: RequestOptions): Promise<ApiResponse> {
+  async createApiKey(permissions?: string[], options?: RequestOptions): Promise<ApiResponse<ApiKeyResult>> {
     const data = permissions ? { permissions } : {};
-    return this.makeSignedRequest(
+    const response = await this.makeSignedRequest<ApiKeyResult>(
       '/api/v1/account/api_keys/create',
       'create_api_key',
       data,
       options
     );
+    return this.validateResponse(response, apiKeyResultSchema, 'createApiKey');
   }
 
   /**
    * Revoke API key
    */
-  async revokeApiKey(apiKeyId: string, options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async revokeApiKey(apiKeyId: string, options?: RequestOptions): Promise<ApiResponse<AckResult>> {
+    const response = await this.makeSignedRequest<AckResult>(
       '/api/v1/account/api_keys/revoke',
       'revoke_api_key',
       { api_key_id: apiKeyId },
       options
     );
+    return this.validateResponse(response, ackResultSchema, 'revokeApiKey');
   }
 
   /**
    * List API keys
    */
-  async listApiKeys(options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async listApiKeys(options?: RequestOptions): Promise<ApiResponse<ApiKeyList>> {
+    const response = await this.makeSignedRequest<ApiKeyList>(
       '/api/v1/account/api_keys',
       'list_api_keys',
       {},
       options
     );
+    return this.validateResponse(response, apiKeyListSchema, 'listApiKeys');
   }
 
   // Position Management Methods
@@ -497,7 +685,7 @@ export class SignClient extends BaseClient {
   /**
    * Set position take-profit/stop-loss
    */
-  async setPositionTPSL(params: SetPositionTPSLParams, options?: RequestOptions): Promise<ApiResponse> {
+  async setPositionTPSL(params: SetPositionTPSLParams, options?: RequestOptions): Promise<ApiResponse<AckResult>> {
     const payload: any = {};
     
     if (params.market || params.symbol) {
@@ -526,42 +714,151 @@ export class SignClient extends BaseClient {
     
     const payloadWithBuilder = this.mergeBuilderCode(payload);
     
-    return this.makeSignedRequest(
+    const response = await this.makeSignedRequest<AckResult>(
       '/positions/tpsl',
       'set_position_tpsl',
       payloadWithBuilder,
       options
     );
+    return this.validateResponse(response, ackResultSchema, 'setPositionTPSL');
   }
 
   /**
-   * Close a position
+   * Close a position with a reduce-only market order on the opposite side.
+   * Closes the full position unless size is given, then re-reads the position to confirm it was reduced.
    */
-  async closePosition(params: ClosePositionParams, options?: RequestOptions): Promise<ApiResponse> {
-    const closeOrderParams: CreateOrderParams = {
-      symbol: params.market,
-      side: 'ask',
+  async closePosition(params: ClosePositionParams, options?: RequestOptions): Promise<ApiResponse<ClosePositionResult>> {
+    const position = await this.getPosition(params.market, options);
+    if (!position.success || !position.data) {
+      return position as unknown as ApiResponse<ClosePositionResult>;
+    }
+    return this.closeKnownPosition(position.data, params, options);
+  }
+
+  /**
+   * Close every open position concurrently. Failures are reported per market.
+   */
+  async closeAllPositions(params?: CloseAllPositionsParams, options?: RequestOptions): Promise<ApiResponse<CloseAllPositionsResult>> {
+    const positions = await this.getPositions(undefined, options);
+    if (!positions.success || !positions.data) {
+      return positions as unknown as ApiResponse<CloseAllPositionsResult>;
+    }
+
+    const open = positions.data.filter((position) => position.amount.isPositive());
+    const outcomes = await Promise.allSettled(
+      open.map((position) => this.closeKnownPosition(position, { ...params, market: position.symbol }, options))
+    );
+
+    const result: CloseAllPositionsResult = { closed: [], failed: [], flat: true };
+    outcomes.forEach((outcome, i) => {
+      const symbol = open[i].symbol;
+      if (outcome.status === 'rejected') {
+        result.failed.push({ symbol, error: outcome.reason instanceof Error ? outcome.reason : new Error(String(outcome.reason)) });
+      } else if (!outcome.value.success || !outcome.value.data) {
+        result.failed.push({
+          symbol,
+          error: new UnsuccessfulResponseError(outcome.value.error?.message ?? `Failed to close ${symbol} position`, outcome.value),
+        });
+      } else {
+        result.closed.push(outcome.value.data);
+      }
+    });
+    result.flat = result.failed.length === 0 && result.closed.every((closed) => closed.flat);
+    return { success: true, data: result };
+  }
+
+  private async closeKnownPosition(
+    position: NormalizedPosition,
+    params: ClosePositionParams,
+    options?: RequestOptions
+  ): Promise<ApiResponse<ClosePositionResult>> {
+    const amount = params.size !== undefined ? Decimal.tryFrom(params.size) : position.amount;
+    if (!amount || !amount.isPositive() || amount.gt(position.amount)) {
+      throw new ValidationError(
+        `Close size ${params.size} must be greater than 0 and at most the ${position.amount} ${position.symbol} position`,
+        'size'
+      );
+    }
+
+    const side: OrderSide = position.side === 'long' ? 'ask' : 'bid';
+    const order = await this.createMarketOrder({
+      symbol: position.symbol,
+      side,
+      amount: amount.toString(),
       reduce_only: true,
-      slippage_percent: '0.5',
+      slippage_percent: params.slippage_percent ?? DEFAULT_CLOSE_SLIPPAGE,
+      ...(params.client_order_id && { client_order_id: params.client_order_id }),
+    }, options);
+    if (!order.success || !order.data) {
+      return order as unknown as ApiResponse<ClosePositionResult>;
+    }
+
+    const target = position.amount.minus(amount);
+    const remaining = params.confirm === false
+      ? target
+      : await this.awaitPositionSize(position.symbol, target, position.amount, params.confirmTimeoutMs ?? 5000, options);
+
+    return {
+      ...order,
+      data: {
+        ...order.data,
+        symbol: position.symbol,
+        side,
+        amount: amount.toString(),
+        remainingAmount: remaining.toString(),
+        flat: remaining.isZero(),
+      },
     };
+  }
 
-    if (params.size) {
-      closeOrderParams.amount = params.size;
-    }
+  /**
+   * Re-read a position until it is at or below the target size, or the timeout passes.
+   * Returns the last size seen, or `fallback` when the position could not be read.
+   * Rejects with RequestAbortedError once `options.signal` aborts.
+   */
+  private async awaitPositionSize(
+    symbol: string,
+    target: Decimal,
+    fallback: Decimal,
+    timeoutMs: number,
+    options?: RequestOptions
+  ): Promise<Decimal> {
+    const deadline = Date.now() + timeoutMs;
+    let current: Decimal | undefined;
 
-    return this.createMarketOrder(closeOrderParams, options);
+    for (;;) {
+      if (options?.signal?.aborted) {
+        throw new RequestAbortedError();
+      }
+      try {
+        const response = await this.getPosition(symbol, options);
+        if (response.success && response.data) {
+          current = response.data.amount;
+        } else if (response.error?.code === 'NOT_FOUND') {
+          current = Decimal.ZERO;
+        }
+      } catch (error) {
+        this.logger.debug(`Position check for ${symbol} failed: ${(error as Error).message}`);
+      }
+
+      if ((current !== undefined && current.lte(target)) || Date.now() >= deadline) {
+        return current ?? fallback;
+      }
+      await sleep(CLOSE_CONFIRM_INTERVAL_MS, options?.signal);
+    }
   }
 
   /**
    * Modify position (update leverage, margin mode, etc.)
    */
-  async modifyPosition(params: ModifyPositionParams, options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async modifyPosition(params: ModifyPositionParams, options?: RequestOptions): Promise<ApiResponse<AckResult>> {
+    const response = await this.makeSignedRequest<AckResult>(
       '/api/v1/positions/modify',
       'modify_position',
       params,
       options
     );
+    return this.validateResponse(response, ackResultSchema, 'modifyPosition');
   }
 
   // Subaccount Management Methods
@@ -569,37 +866,40 @@ export class SignClient extends BaseClient {
   /**
    * Initiate subaccount creation
    */
-  async initiateSubaccount(options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async initiateSubaccount(options?: RequestOptions): Promise<ApiResponse<SubaccountResult>> {
+    const response = await this.makeSignedRequest<SubaccountResult>(
       '/api/v1/account/subaccount/create',
       'initiate_subaccount',
       {},
       options
     );
+    return this.validateResponse(response, subaccountResultSchema, 'initiateSubaccount');
   }
 
   /**
    * Confirm subaccount creation
    */
-  async confirmSubaccount(params: SubaccountParams, options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async confirmSubaccount(params: SubaccountParams, options?: RequestOptions): Promise<ApiResponse<SubaccountResult>> {
+    const response = await this.makeSignedRequest<SubaccountResult>(
       '/api/v1/account/subaccount/create',
       'confirm_subaccount',
       params,
       options
     );
+    return this.validateResponse(response, subaccountResultSchema, 'confirmSubaccount');
   }
 
   /**
    * Transfer funds between subaccounts
    */
-  async subaccountTransfer(params: SubaccountTransferParams, options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async subaccountTransfer(params: SubaccountTransferParams, options?: RequestOptions): Promise<ApiResponse<SubaccountResult>> {
+    const response = await this.makeSignedRequest<SubaccountResult>(
       '/api/v1/account/subaccount/transfer',
       'subaccount_transfer',
       params,
       options
     );
+    return this.validateResponse(response, subaccountResultSchema, 'subaccountTransfer');
   }
 
   // Agent Wallet Methods
@@ -607,97 +907,105 @@ export class SignClient extends BaseClient {
   /**
    * Bind agent wallet to account
    */
-  async bindAgentWallet(params: BindAgentWalletParams, options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async bindAgentWallet(params: BindAgentWalletParams, options?: RequestOptions): Promise<ApiResponse<AckResult>> {
+    const response = await this.makeSignedRequest<AckResult>(
       '/api/v1/agent/bind',
       'bind_agent_wallet',
       { agent_wallet: params.agent_wallet_public_key },
       options
     );
+    return this.validateResponse(response, ackResultSchema, 'bindAgentWallet');
   }
 
   /**
    * List all bound agent wallets
    */
-  async listAgentWallets(options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async listAgentWallets(options?: RequestOptions): Promise<ApiResponse<AgentWalletInfo[]>> {
+    const response = await this.makeSignedRequest<AgentWalletInfo[]>(
       '/api/v1/agent/list',
       'list_agent_wallets',
       {},
       options
     );
+    return this.validateResponse(response, array(agentWalletInfoSchema), 'listAgentWallets');
   }
 
   /**
    * Revoke a specific agent wallet
    */
-  async revokeAgentWallet(params: RevokeAgentWalletParams, options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async revokeAgentWallet(params: RevokeAgentWalletParams, options?: RequestOptions): Promise<ApiResponse<AckResult>> {
+    const response = await this.makeSignedRequest<AckResult>(
       '/api/v1/agent/revoke',
       'revoke_agent_wallet',
       params,
       options
     );
+    return this.validateResponse(response, ackResultSchema, 'revokeAgentWallet');
   }
 
   /**
    * Revoke all agent wallets
    */
-  async revokeAllAgentWallets(options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async revokeAllAgentWallets(options?: RequestOptions): Promise<ApiResponse<AckResult>> {
+    const response = await this.makeSignedRequest<AckResult>(
       '/api/v1/agent/revoke_all',
       'revoke_all_agent_wallets',
       {},
       options
     );
+    return this.validateResponse(response, ackResultSchema, 'revokeAllAgentWallets');
   }
 
   /**
    * List IP addresses in whitelist for an agent wallet
    */
-  async listAgentIPWhitelist(params: ListAgentIPWhitelistParams, options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async listAgentIPWhitelist(params: ListAgentIPWhitelistParams, options?: RequestOptions): Promise<ApiResponse<AgentIPWhitelist>> {
+    const response = await this.makeSignedRequest<AgentIPWhitelist>(
       '/api/v1/agent/ip_whitelist/list',
       'list_agent_ip_whitelist',
       params,
       options
     );
+    return this.validateResponse(response, agentIPWhitelistSchema, 'listAgentIPWhitelist');
   }
 
   /**
    * Add an IP address to the whitelist for an agent wallet
    */
-  async addAgentIPWhitelist(params: AddAgentIPWhitelistParams, options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async addAgentIPWhitelist(params: AddAgentIPWhitelistParams, options?: RequestOptions): Promise<ApiResponse<AckResult>> {
+    const response = await this.makeSignedRequest<AckResult>(
       '/api/v1/agent/ip_whitelist/add',
       'add_agent_whitelisted_ip',
       params,
       options
     );
+    return this.validateResponse(response, ackResultSchema, 'addAgentIPWhitelist');
   }
 
   /**
    * Remove an IP address from the whitelist for an agent wallet
    */
-  async removeAgentIPWhitelist(params: RemoveAgentIPWhitelistParams, options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async removeAgentIPWhitelist(params: RemoveAgentIPWhitelistParams, options?: RequestOptions): Promise<ApiResponse<AckResult>> {
+    const response = await this.makeSignedRequest<AckResult>(
       '/api/v1/agent/ip_whitelist/remove',
       'remove_agent_whitelisted_ip',
       params,
       options
     );
+    return this.validateResponse(response, ackResultSchema, 'removeAgentIPWhitelist');
   }
 
   /**
    * Enable or disable IP whitelist enforcement for an agent wallet
    */
-  async toggleAgentIPWhitelist(params: ToggleAgentIPWhitelistParams, options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async toggleAgentIPWhitelist(params: ToggleAgentIPWhitelistParams, options?: RequestOptions): Promise<ApiResponse<AckResult>> {
+    const response = await this.makeSignedRequest<AckResult>(
       '/api/v1/agent/ip_whitelist/toggle',
       'set_agent_ip_whitelist_enabled',
       params,
       options
     );
+    return this.validateResponse(response, ackResultSchema, 'toggleAgentIPWhitelist');
   }
 
   // Builder Program Methods
@@ -706,34 +1014,37 @@ export class SignClient extends BaseClient {
    * Approve a builder code for use in orders
    * User signs approval with builder_code and max_fee_rate
    */
-  async approveBuilderCode(params: ApproveBuilderCodeParams, options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async approveBuilderCode(params: ApproveBuilderCodeParams, options?: RequestOptions): Promise<ApiResponse<AckResult>> {
+    const response = await this.makeSignedRequest<AckResult>(
       '/account/builder_codes/approve',
       'approve_builder_code',
       params,
       options
     );
+    return this.validateResponse(response, ackResultSchema, 'approveBuilderCode');
   }
 
   /**
    * Revoke a builder code authorization
    */
-  async revokeBuilderCode(params: RevokeBuilderCodeParams, options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async revokeBuilderCode(params: RevokeBuilderCodeParams, options?: RequestOptions): Promise<ApiResponse<AckResult>> {
+    const response = await this.makeSignedRequest<AckResult>(
       '/account/builder_codes/revoke',
       'revoke_builder_code',
       params,
       options
     );
+    return this.validateResponse(response, ackResultSchema, 'revokeBuilderCode');
   }
 
   /**
    * Get list of approved builder codes for the account
    * This is a GET request, not signed
    */
-  async getBuilderCodeApprovals(account: string): Promise<ApiResponse> {
+  async getBuilderCodeApprovals(account: string, options?: CallOptions): Promise<ApiResponse<BuilderCodeApproval[]>> {
     // baseUrl already includes /api/v1, so just use /account/...
-    return this.get(`/account/builder_codes/approvals?account=${account}`);
+    const response = await this.get<BuilderCodeApproval[]>(`/account/builder_codes/approvals?account=${account}`, undefined, options);
+    return this.validateResponse(response, array(builderCodeApprovalSchema), 'getBuilderCodeApprovals');
   }
 
   // Order Query Methods (using signed POST requests)
@@ -741,41 +1052,44 @@ export class SignClient extends BaseClient {
   /**
    * Get open orders (signed request)
    */
-  async getOpenOrders(market?: string, options?: RequestOptions): Promise<ApiResponse> {
+  async getOpenOrders(market?: string, options?: RequestOptions): Promise<ApiResponse<NormalizedOrder[]>> {
     const data = market ? { market } : {};
-    return this.makeSignedRequest(
+    const response = await this.makeSignedRequest<Order[]>(
       '/orders/open',
       'get_open_orders',
       data,
       options
     );
+    return this.normalizeList(this.validateResponse(response, array(orderSchema), 'getOpenOrders'), normalizeOrder, 'getOpenOrders');
   }
 
   /**
    * Get order history (signed request)
    */
-  async getOrderHistory(market?: string, limit?: number, options?: RequestOptions): Promise<ApiResponse> {
+  async getOrderHistory(market?: string, limit?: number, options?: RequestOptions): Promise<ApiResponse<NormalizedOrder[]>> {
     const data: Record<string, any> = {};
     if (market) data.market = market;
     if (limit) data.limit = limit.toString();
-    return this.makeSignedRequest(
+    const response = await this.makeSignedRequest<Order[]>(
       '/orders/history',
       'get_order_history',
       data,
       options
     );
+    return this.normalizeList(this.validateResponse(response, array(orderSchema), 'getOrderHistory'), normalizeOrder, 'getOrderHistory');
   }
 
   /**
    * Get order by ID (signed request)
    */
-  async getOrder(orderId: string, options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async getOrder(orderId: string, options?: RequestOptions): Promise<ApiResponse<NormalizedOrder>> {
+    const response = await this.makeSignedRequest<Order>(
       `/orders/${orderId}`,
       'get_order',
       {},
       options
     );
+    return this.normalizeItem(this.validateResponse(response, orderSchema, 'getOrder'), normalizeOrder, 'getOrder');
   }
 
   // Position Query Methods (using signed POST requests)
@@ -783,63 +1097,66 @@ export class SignClient extends BaseClient {
   /**
    * Get positions (signed request)
    */
-  async getPositions(market?: string, options?: RequestOptions): Promise<ApiResponse> {
+  async getPositions(market?: string, options?: RequestOptions): Promise<ApiResponse<NormalizedPosition[]>> {
     const data = market ? { market } : {};
-    return this.makeSignedRequest(
+    const response = await this.makeSignedRequest<Position[]>(
       '/positions',
       'get_positions',
       data,
       options
     );
+    return this.normalizeList(this.validateResponse(response, array(positionSchema), 'getPositions'), normalizePosition, 'getPositions');
   }
 
   /**
    * Get position for a specific market (signed request)
    * Note: This filters client-side from getPositions() as the API doesn't have a single-position endpoint
    */
-  async getPosition(market: string, options?: RequestOptions): Promise<ApiResponse> {
+  async getPosition(market: string, options?: RequestOptions): Promise<ApiResponse<NormalizedPosition>> {
     const result = await this.getPositions(market, options);
     if (result.success && result.data && Array.isArray(result.data)) {
-      const position = result.data.find((p: any) => p.market === market || p.symbol === market);
+      const position = result.data.find((p) => p.symbol === market);
       if (position) {
         return { ...result, data: position };
       }
       return {
         success: false,
-        data: null,
+        data: undefined,
         error: {
           code: 'NOT_FOUND',
           message: `Position not found for market: ${market}`,
         },
       };
     }
-    return result;
+    return { ...result, data: undefined };
   }
 
   /**
    * Get account balance (signed request)
    */
-  async getBalance(currency?: string, options?: RequestOptions): Promise<ApiResponse> {
+  async getBalance(currency?: string, options?: RequestOptions): Promise<ApiResponse<Balance>> {
     const data = currency ? { currency } : {};
-    return this.makeSignedRequest(
+    const response = await this.makeSignedRequest<Balance>(
       currency ? `/account/balance/${currency}` : '/account/balance',
       'get_balance',
       data,
       options
     );
+    return this.validateResponse(response, balanceSchema, 'getBalance');
   }
 
   /**
    * Get account info (signed request)
    * For GET requests, use ApiClient.getAccountInfo(account) instead
    */
-  async getAccountInfo(options?: RequestOptions): Promise<ApiResponse> {
-    return this.makeSignedRequest(
+  async getAccountInfo(options?: RequestOptions): Promise<ApiResponse<AccountInfo>> {
+    const response = await this.makeSignedRequest<AccountInfo>(
       '/account',
       'get_account_info',
       {},
       options
     );
+    return this.validateResponse(response, accountInfoSchema, 'getAccountInfo');
   }
 }
 
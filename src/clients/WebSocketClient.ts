@@ -4,15 +4,32 @@
  */
 
 import * as WS from 'ws';
+import { randomUUID } from 'crypto';
 type WebSocketInstance = InstanceType<typeof WS.default>;
 import {
   WebSocketConfig,
   WebSocketMessage,
+  WebSocketFrame,
+  WebSocketDataFrame,
+  WebSocketPongFrame,
   OperationType,
   RequestOptions,
+  NetworkOptions,
+  ApiResponse,
+  CreateOrderResult,
+  CancelResult,
+  AckResult,
+  ResponseValidationMode,
 } from '../types';
+import { NetworkError, TimeoutError, ValidationError } from '../errors';
 import { buildSignedRequest } from '../utils/signer';
-import { logger } from '../utils/logger';
+import { logger, Logger } from '../utils/logger';
+import { RateLimiter } from '../utils/rateLimiter';
+import { ClockSync } from '../utils/clock';
+import { Instrumentation } from '../utils/instrumentation';
+import { createAgent, networkHeaders, resolveProxy } from '../utils/network';
+import { describeIssues, Schema, validateSchema } from '../utils/schema';
+import { ackResultSchema, cancelResultSchema, createOrderResultSchema } from '../utils/responseSchemas';
 
 export type WebSocketEventType =
   | 'open'
@@ -30,6 +47,14 @@ export type WebSocketEventType =
 
 export type WebSocketEventHandler = (data: any) => void;
 
+interface PendingOperation {
+  operation: OperationType;
+  schema?: Schema<any>;
+  resolve: (response: ApiResponse<any>) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
 export class WebSocketClient {
   private ws: WebSocketInstance | null = null;
   private config: Required<WebSocketConfig>;
@@ -41,10 +66,17 @@ export class WebSocketClient {
   private isConnecting = false;
   private manualDisconnect = false;
   private subscriptions: Set<string> = new Set();
+  private pendingOperations: Map<string, PendingOperation> = new Map();
   private privateKey?: string | Uint8Array;
   private accountPublicKey?: string;
   private agentWalletPublicKey?: string;
   private builderCode?: string; // Optional builder code from env or config
+  private rateLimiter?: RateLimiter;
+  private clockSync?: ClockSync;
+  private instrumentation?: Instrumentation;
+  private logger: Logger;
+  private network?: NetworkOptions;
+  private responseValidation: ResponseValidationMode;
 
   constructor(
     config?: WebSocketConfig & {
@@ -52,6 +84,12 @@ export class WebSocketClient {
       accountPublicKey?: string;
       agentWalletPublicKey?: string;
       builderCode?: string; // Optional builder code
+      rateLimiter?: RateLimiter; // Optional limiter shared with the REST clients
+      clockSync?: ClockSync; // Optional clock shared with the REST clients
+      instrumentation?: Instrumentation; // Optional sink for connection and message events
+      logger?: Logger; // Optional logger instance (defaults to the SDK logger)
+      network?: NetworkOptions; // Proxy, TLS and handshake header settings
+      responseValidation?: ResponseValidationMode; // Check operation results: strict rejects with ValidationError, lenient logs (default off)
     }
   ) {
     this.config = {
@@ -59,6 +97,7 @@ export class WebSocketClient {
       reconnect: config?.reconnect !== false,
       reconnectInterval: config?.reconnectInterval || 5000,
       maxReconnectAttempts: config?.maxReconnectAttempts || 10,
+      operationTimeout: config?.operationTimeout || 30000,
     };
 
     if (config?.privateKey) {
@@ -69,6 +108,12 @@ export class WebSocketClient {
     
     // Env builder code takes precedence
     this.builderCode = process.env.BUILDER_CODE || config?.builderCode;
+    this.rateLimiter = config?.rateLimiter;
+    this.clockSync = config?.clockSync;
+    this.instrumentation = config?.instrumentation;
+    this.logger = (config?.logger ?? logger).child({ client: 'WebSocketClient' });
+    this.network = config?.network;
+    this.responseValidation = config?.responseValidation ?? 'off';
   }
 
   /**
@@ -90,12 +135,20 @@ export class WebSocketClient {
 
     return new Promise((resolve, reject) => {
       try {
-        this.ws = new WS.default(this.config.url);
+        const network = this.network ?? (resolveProxy(this.config.url) ? {} : undefined);
+        this.ws = network
+          ? new WS.default(this.config.url, {
+            agent: createAgent(this.config.url, network, false),
+            headers: networkHeaders(network),
+            ...network.tls,
+          })
+          : new WS.default(this.config.url);
 
         this.ws!.on('open', () => {
           this.isConnecting = false;
           this.reconnectAttempts = 0;
-          logger.info('WebSocket connected');
+          this.logger.info('WebSocket connected');
+          this.instrumentation?.record('ws_connection', { state: 'open' });
           this.emit('open', {});
           
           // Start heartbeat to keep connection alive
@@ -111,7 +164,7 @@ export class WebSocketClient {
 
         this.ws!.on('message', (data: WS.Data) => {
           try {
-            const message: WebSocketMessage = JSON.parse(data.toString());
+            const message: WebSocketFrame = JSON.parse(data.toString());
             this.handleMessage(message);
           } catch (error) {
             this.emit('error', { error });
@@ -120,15 +173,17 @@ export class WebSocketClient {
 
         this.ws!.on('error', (error: Error) => {
           this.isConnecting = false;
-          logger.error('WebSocket error:', error);
+          this.logger.error('WebSocket error:', error);
           this.emit('error', { error });
           reject(error);
         });
 
         this.ws!.on('close', () => {
           this.isConnecting = false;
-          logger.warn('WebSocket closed');
+          this.logger.warn('WebSocket closed');
+          this.instrumentation?.record('ws_connection', { state: 'closed' });
           this.stopHeartbeat();
+          this.rejectPendingOperations('WebSocket closed before the operation was acknowledged');
           this.emit('close', {});
           this.handleReconnect();
         });
@@ -151,6 +206,7 @@ export class WebSocketClient {
     }
 
     this.stopHeartbeat();
+    this.rejectPendingOperations('WebSocket disconnected before the operation was acknowledged');
 
     if (this.ws) {
       this.ws.close();
@@ -240,13 +296,16 @@ export class WebSocketClient {
   }
 
   /**
-   * Send a signed operation via WebSocket
+   * Send a signed operation via WebSocket.
+   * Resolves with the server's response to this request, matched by its id,
+   * after checking its data against the schema when response validation is enabled.
    */
-  async sendSignedOperation(
+  async sendSignedOperation<T = any>(
     operation: OperationType,
     data: Record<string, any>,
-    options?: RequestOptions
-  ): Promise<void> {
+    options?: RequestOptions,
+    schema?: Schema<T>
+  ): Promise<ApiResponse<T>> {
     if (!this.privateKey) {
       throw new Error('Private key required for signed operations');
     }
@@ -255,6 +314,10 @@ export class WebSocketClient {
       throw new Error('WebSocket not connected');
     }
 
+    if (this.rateLimiter) {
+      await this.rateLimiter.acquire(this.rateLimiter.weightFor(operation));
+    }
+
     const publicKey = options?.agent_wallet || this.agentWalletPublicKey || this.accountPublicKey;
     
     // Merge builder_code if available and not already in data
@@ -266,11 +329,15 @@ export class WebSocketClient {
       operation,
       dataWithBuilder,
       this.privateKey,
-      publicKey || this.accountPublicKey
+      publicKey || this.accountPublicKey,
+      undefined,
+      this.clockSync?.now()
     );
 
+    const id = randomUUID();
     const message: WebSocketMessage = {
       type: 'operation',
+      id,
       ...signedRequest,
     };
 
@@ -278,7 +345,25 @@ export class WebSocketClient {
       (message as any).agent_wallet = options?.agent_wallet || this.agentWalletPublicKey;
     }
 
-    this.send(message);
+    this.logger
+      .child({ account: this.accountPublicKey, operation, client_order_id: data.client_order_id })
+      .debug('Sending signed operation');
+
+    return new Promise<ApiResponse<T>>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingOperations.delete(id);
+        reject(new TimeoutError(`No response to ${operation} within ${this.config.operationTimeout}ms`));
+      }, this.config.operationTimeout);
+      this.pendingOperations.set(id, { operation, schema, resolve, reject, timer });
+
+      try {
+        this.send(message);
+      } catch (error) {
+        clearTimeout(timer);
+        this.pendingOperations.delete(id);
+        reject(error);
+      }
+    });
   }
 
   /**
@@ -289,11 +374,12 @@ export class WebSocketClient {
     side: 'buy' | 'sell',
     size: string,
     options?: RequestOptions
-  ): Promise<void> {
+  ): Promise<ApiResponse<CreateOrderResult>> {
     return this.sendSignedOperation(
       'create_market_order',
       { market, side, size, order_type: 'market' },
-      options
+      options,
+      createOrderResultSchema
     );
   }
 
@@ -306,11 +392,12 @@ export class WebSocketClient {
     size: string,
     price: string,
     options?: RequestOptions
-  ): Promise<void> {
+  ): Promise<ApiResponse<CreateOrderResult>> {
     return this.sendSignedOperation(
       'create_order',
       { market, side, size, price, order_type: 'limit' },
-      options
+      options,
+      createOrderResultSchema
     );
   }
 
@@ -324,11 +411,12 @@ export class WebSocketClient {
     stopPrice: string,
     price?: string,
     options?: RequestOptions
-  ): Promise<void> {
+  ): Promise<ApiResponse<CreateOrderResult>> {
     return this.sendSignedOperation(
       'create_stop_order',
       { market, side, size, stop_price: stopPrice, price },
-      options
+      options,
+      createOrderResultSchema
     );
   }
 
@@ -340,11 +428,12 @@ export class WebSocketClient {
     takeProfit?: string,
     stopLoss?: string,
     options?: RequestOptions
-  ): Promise<void> {
+  ): Promise<ApiResponse<AckResult>> {
     return this.sendSignedOperation(
       'set_position_tpsl',
       { market, take_profit: takeProfit, stop_loss: stopLoss },
-      options
+      options,
+      ackResultSchema
     );
   }
 
@@ -355,10 +444,10 @@ export class WebSocketClient {
     orderId: string | number,
     market?: string,
     options?: RequestOptions
-  ): Promise<void> {
+  ): Promise<ApiResponse<CancelResult>> {
     const data: Record<string, any> = { order_id: orderId };
     if (market) data.market = market;
-    return this.sendSignedOperation('cancel_order', data, options);
+    return this.sendSignedOperation('cancel_order', data, options, cancelResultSchema);
   }
 
   /**
@@ -368,10 +457,10 @@ export class WebSocketClient {
     market: string,
     size?: string,
     options?: RequestOptions
-  ): Promise<void> {
+  ): Promise<ApiResponse<CreateOrderResult>> {
     const data: Record<string, any> = { market };
     if (size) data.size = size;
-    return this.sendSignedOperation('close_position', data, options);
+    return this.sendSignedOperation('close_position', data, options, createOrderResultSchema);
   }
 
   /**
@@ -382,11 +471,11 @@ export class WebSocketClient {
     leverage?: number,
     marginMode?: 'isolated' | 'cross',
     options?: RequestOptions
-  ): Promise<void> {
+  ): Promise<ApiResponse<AckResult>> {
     const data: Record<string, any> = { market };
     if (leverage !== undefined) data.leverage = leverage;
     if (marginMode) data.margin_mode = marginMode;
-    return this.sendSignedOperation('modify_position', data, options);
+    return this.sendSignedOperation('modify_position', data, options, ackResultSchema);
   }
 
   /**
@@ -476,15 +565,23 @@ export class WebSocketClient {
     this.ws.send(JSON.stringify(message));
   }
 
-  private handleMessage(message: WebSocketMessage): void {
+  private handleMessage(message: WebSocketFrame): void {
     // Handle pong response for heartbeat
-    if ((message as any).channel === 'pong') {
-      logger.debug('Received pong from server');
+    if (isPongFrame(message)) {
+      this.instrumentation?.record('ws_message', { type: message.channel });
+      this.logger.debug('Received pong from server');
+      this.recordServerTime(message.server_time ?? message.timestamp ?? message.t);
       return;
     }
 
+    this.instrumentation?.record('ws_message', { type: message.type || message.channel || 'unknown' });
+    this.recordServerTime(message.server_time);
     this.emit('message', message);
 
+    if (this.resolveOperation(message)) {
+      return;
+    }
+
     // Route specific message types
     if (message.type === 'order_update') {
       this.emit('order_update', message.data);
@@ -494,13 +591,73 @@ export class WebSocketClient {
       this.emit('ticker', message.data);
     } else if (message.type === 'orderbook') {
       this.emit('orderbook', message.data);
-    } else if (message.type === 'account_twap_orders' || (message as any).source === 'account_twap_orders') {
+    } else if (message.type === 'account_twap_orders' || message.source === 'account_twap_orders') {
       this.emit('twap_order', message.data || message);
-    } else if (message.type === 'account_twap_order_updates' || (message as any).source === 'account_twap_order_updates') {
+    } else if (message.type === 'account_twap_order_updates' || message.source === 'account_twap_order_updates') {
       this.emit('twap_order_update', message.data || message);
     }
   }
 
+  /**
+   * Settle the pending operation a response belongs to. Returns false for other messages.
+   */
+  private resolveOperation(message: WebSocketDataFrame): boolean {
+    const pending = message.id !== undefined ? this.pendingOperations.get(message.id) : undefined;
+    if (!pending) {
+      return false;
+    }
+    clearTimeout(pending.timer);
+    this.pendingOperations.delete(message.id!);
+
+    const failed = Boolean(message.err ?? message.error) || (message.code !== undefined && Number(message.code) !== 200);
+    if (failed) {
+      pending.resolve({
+        success: false,
+        error: {
+          code: String(message.code ?? message.error?.code ?? 'error'),
+          message: message.err ?? message.error?.message ?? `${pending.operation} failed`,
+        },
+      });
+      return true;
+    }
+
+    const data = toOperationResult(message.data);
+    if (pending.schema && this.responseValidation !== 'off' && data != null) {
+      const issues = validateSchema(data, pending.schema, 'data');
+      if (issues.length > 0) {
+        const description = describeIssues(issues, pending.operation);
+        if (this.responseValidation === 'strict') {
+          pending.reject(new ValidationError(description, issues[0].path));
+          return true;
+        }
+        this.logger.warn(description);
+      }
+    }
+    pending.resolve({ success: true, data });
+    return true;
+  }
+
+  private rejectPendingOperations(reason: string): void {
+    this.pendingOperations.forEach((pending) => {
+      clearTimeout(pending.timer);
+      pending.reject(new NetworkError(reason));
+    });
+    this.pendingOperations.clear();
+  }
+
+  /**
+   * Feed server time (milliseconds) into the shared clock. Only pong frames and an explicit
+   * top-level server_time count; timestamps inside data payloads are event times, not server time.
+   */
+  private recordServerTime(timestamp: number | undefined): void {
+    if (!this.clockSync) {
+      return;
+    }
+    if (typeof timestamp === 'number' && timestamp > 1e12) {
+      this.clockSync.addSample(timestamp, { receivedAt: Date.now(), source: 'websocket' });
+    }
+  }
+
   private emit(event: WebSocketEventType, data: any): void {
     const handlers = this.eventHandlers.get(event);
     if (handlers) {
@@ -508,7 +665,7 @@ export class WebSocketClient {
         try {
           handler(data);
         } catch (error) {
-          logger.error(`Error in ${event} handler:`, error);
+          this.logger.error(`Error in ${event} handler:`, error);
         }
       });
     }
@@ -516,7 +673,7 @@ export class WebSocketClient {
 
   private handleReconnect(): void {
     if (this.manualDisconnect) {
-      logger.debug('Skipping reconnect because disconnect was manual');
+      this.logger.debug('Skipping reconnect because disconnect was manual');
       return;
     }
 
@@ -530,7 +687,8 @@ export class WebSocketClient {
     }
 
     this.reconnectAttempts++;
-    logger.info(`WebSocket reconnecting (attempt ${this.reconnectAttempts}/${this.config.maxReconnectAttempts})`);
+    this.logger.info(`WebSocket reconnecting (attempt ${this.reconnectAttempts}/${this.config.maxReconnectAttempts})`);
+    this.instrumentation?.record('ws_connection', { state: 'reconnecting', attempt: this.reconnectAttempts });
     this.emit('reconnect', { attempt: this.reconnectAttempts });
 
     const delay = Math.min(
@@ -541,7 +699,7 @@ export class WebSocketClient {
 
     this.reconnectTimer = setTimeout(() => {
       this.connect().catch((error) => {
-        logger.error('WebSocket reconnection failed:', error);
+        this.logger.error('WebSocket reconnection failed:', error);
         this.emit('error', { error });
       });
     }, cappedDelay);
@@ -554,14 +712,14 @@ export class WebSocketClient {
   private startHeartbeat(): void {
     this.stopHeartbeat();
     
-    logger.debug('Starting WebSocket heartbeat');
+    this.logger.debug('Starting WebSocket heartbeat');
     this.heartbeatTimer = setInterval(() => {
       if (this.ws && this.ws.readyState === 1) { // WebSocket.OPEN = 1
-        logger.debug('Sending ping to keep connection alive');
+        this.logger.debug('Sending ping to keep connection alive');
         try {
           this.ws.send(JSON.stringify({ method: 'ping' }));
         } catch (error) {
-          logger.error('Failed to send ping:', error);
+          this.logger.error('Failed to send ping:', error);
         }
       }
     }, this.heartbeatInterval);
@@ -574,9 +732,23 @@ export class WebSocketClient {
     if (this.heartbeatTimer) {
       clearInterval(this.heartbeatTimer);
       this.heartbeatTimer = null;
-      logger.debug('Stopped WebSocket heartbeat');
+      this.logger.debug('Stopped WebSocket heartbeat');
     }
   }
 }
 
+function isPongFrame(frame: WebSocketFrame): frame is WebSocketPongFrame {
+  return 'channel' in frame && frame.channel === 'pong';
+}
 
+/**
+ * Expand the abbreviated order fields in WebSocket responses
+ * ({ i: order_id, I: client_order_id }) to the REST names
+ */
+function toOperationResult(data: any): any {
+  if (!data || typeof data !== 'object' || Array.isArray(data) || data.order_id !== undefined || data.i === undefined) {
+    return data;
+  }
+  const { i, I, ...rest } = data;
+  return { ...rest, order_id: i, ...(I != null && { client_order_id: I }) };
+}
@@ -2,17 +2,51 @@
  * Custom error classes for Pacifica SDK
  */
 
+export interface PacificaErrorOptions {
+  cause?: unknown;
+}
+
+function serializeError(value: unknown): unknown {
+  if (value instanceof PacificaError) {
+    return value.toJSON();
+  }
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: value.message,
+      ...(value.cause !== undefined && { cause: serializeError(value.cause) }),
+    };
+  }
+  return value;
+}
+
 export class PacificaError extends Error {
-  constructor(message: string, public readonly code?: string) {
-    super(message);
+  constructor(message: string, public readonly code?: string, options?: PacificaErrorOptions) {
+    super(message, options?.cause !== undefined ? { cause: options.cause } : undefined);
     this.name = 'PacificaError';
     Object.setPrototypeOf(this, PacificaError.prototype);
   }
+
+  /**
+   * Plain-object form for structured logging, including the cause chain
+   */
+  toJSON(): Record<string, unknown> {
+    const json: Record<string, unknown> = { name: this.name, message: this.message };
+    for (const [key, value] of Object.entries(this)) {
+      if (value !== undefined) {
+        json[key] = serializeError(value);
+      }
+    }
+    if (this.cause !== undefined) {
+      json.cause = serializeError(this.cause);
+    }
+    return json;
+  }
 }
 
 export class NetworkError extends PacificaError {
   constructor(message: string, public readonly originalError?: Error) {
-    super(message, 'NETWORK_ERROR');
+    super(message, 'NETWORK_ERROR', { cause: originalError });
     this.name = 'NetworkError';
     Object.setPrototypeOf(this, NetworkError.prototype);
   }
@@ -46,17 +80,102 @@ export class AuthenticationError extends PacificaError {
 }
 
 export class APIError extends PacificaError {
+  public readonly serverCode?: string;  // Error code reported by the Pacifica API, if any
+
   constructor(
     message: string,
     public readonly status: number,
-    public readonly responseData?: any
+    public readonly responseData?: any,
+    options?: PacificaErrorOptions & { code?: string }
   ) {
-    super(message, 'API_ERROR');
+    super(message, options?.code ?? 'API_ERROR', options);
     this.name = 'APIError';
+    const serverCode = responseData?.error?.code ?? responseData?.code;
+    if (serverCode !== undefined && serverCode !== null) {
+      this.serverCode = String(serverCode);
+    }
     Object.setPrototypeOf(this, APIError.prototype);
   }
 }
 
+export class InsufficientBalanceError extends APIError {
+  constructor(
+    message: string,
+    status: number,
+    responseData?: any,
+    public readonly required?: string,
+    public readonly available?: string,
+    options?: PacificaErrorOptions
+  ) {
+    super(message, status, responseData, { ...options, code: 'INSUFFICIENT_BALANCE' });
+    this.name = 'InsufficientBalanceError';
+    Object.setPrototypeOf(this, InsufficientBalanceError.prototype);
+  }
+}
+
+export class OrderNotFoundError extends APIError {
+  constructor(
+    message: string,
+    status: number,
+    responseData?: any,
+    public readonly orderId?: string,
+    options?: PacificaErrorOptions
+  ) {
+    super(message, status, responseData, { ...options, code: 'ORDER_NOT_FOUND' });
+    this.name = 'OrderNotFoundError';
+    Object.setPrototypeOf(this, OrderNotFoundError.prototype);
+  }
+}
+
+export class SignatureExpiredError extends APIError {
+  constructor(message: string, status: number, responseData?: any, options?: PacificaErrorOptions) {
+    super(message, status, responseData, { ...options, code: 'SIGNATURE_EXPIRED' });
+    this.name = 'SignatureExpiredError';
+    Object.setPrototypeOf(this, SignatureExpiredError.prototype);
+  }
+}
+
+export class InvalidTickSizeError extends APIError {
+  constructor(
+    message: string,
+    status: number,
+    responseData?: any,
+    public readonly tickSize?: string,
+    public readonly price?: string,
+    options?: PacificaErrorOptions
+  ) {
+    super(message, status, responseData, { ...options, code: 'INVALID_TICK_SIZE' });
+    this.name = 'InvalidTickSizeError';
+    Object.setPrototypeOf(this, InvalidTickSizeError.prototype);
+  }
+}
+
+export class ReduceOnlyViolationError extends APIError {
+  constructor(message: string, status: number, responseData?: any, options?: PacificaErrorOptions) {
+    super(message, status, responseData, { ...options, code: 'REDUCE_ONLY_VIOLATION' });
+    this.name = 'ReduceOnlyViolationError';
+    Object.setPrototypeOf(this, ReduceOnlyViolationError.prototype);
+  }
+}
+
+/**
+ * A request that completed, but whose response body reported success: false.
+ * There is no HTTP error status; the server's code and message come from the body.
+ */
+export class UnsuccessfulResponseError extends PacificaError {
+  public readonly serverCode?: string;  // Error code reported by the Pacifica API, if any
+
+  constructor(message: string, public readonly responseData?: any) {
+    super(message, 'UNSUCCESSFUL_RESPONSE');
+    this.name = 'UnsuccessfulResponseError';
+    const serverCode = responseData?.error?.code ?? responseData?.code;
+    if (serverCode !== undefined && serverCode !== null) {
+      this.serverCode = String(serverCode);
+    }
+    Object.setPrototypeOf(this, UnsuccessfulResponseError.prototype);
+  }
+}
+
 export class ValidationError extends PacificaError {
   constructor(message: string, public readonly field?: string) {
     super(message, 'VALIDATION_ERROR');
@@ -65,3 +184,98 @@ export class ValidationError extends PacificaError {
   }
 }
 
+export class RequestAbortedError extends PacificaError {
+  constructor(message: string = 'Request aborted') {
+    super(message, 'ABORTED');
+    this.name = 'RequestAbortedError';
+    Object.setPrototypeOf(this, RequestAbortedError.prototype);
+  }
+}
+
+export class CircuitOpenError extends PacificaError {
+  constructor(
+    public readonly group: string,
+    public readonly retryAfter?: number
+  ) {
+    super(`Circuit open for ${group} endpoints; failing fast`, 'CIRCUIT_OPEN');
+    this.name = 'CircuitOpenError';
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+}
+
+/**
+ * Known Pacifica error responses, matched by server error code or message.
+ * The first matching entry wins.
+ */
+const API_ERROR_MATCHERS: Array<{
+  codes: string[];
+  pattern: RegExp;
+  create: (message: string, status: number, responseData: any) => APIError;
+}> = [
+  {
+    codes: ['SIGNATURE_EXPIRED', 'EXPIRED_SIGNATURE', 'REQUEST_EXPIRED'],
+    pattern: /(signature|timestamp|request).*expired|expired.*(signature|timestamp)|expiry[_ ]window/i,
+    create: (message, status, data) => new SignatureExpiredError(message, status, data),
+  },
+  {
+    codes: ['INSUFFICIENT_BALANCE', 'INSUFFICIENT_MARGIN'],
+    pattern: /insufficient (balance|margin|funds|collateral)/i,
+    create: (message, status, data) => new InsufficientBalanceError(
+      message,
+      status,
+      data,
+      pickField(data, 'required') ?? matchNumber(message, /required[:=\s]+\$?([\d.]+)/i),
+      pickField(data, 'available') ?? matchNumber(message, /available[:=\s]+\$?([\d.]+)/i)
+    ),
+  },
+  {
+    codes: ['ORDER_NOT_FOUND'],
+    pattern: /order.*not found|no such order|unknown order/i,
+    create: (message, status, data) => new OrderNotFoundError(
+      message,
+      status,
+      data,
+      pickField(data, 'order_id') ?? matchNumber(message, /order(?:[ _]id)?[:#=\s]+(\d+)/i)
+    ),
+  },
+  {
+    codes: ['INVALID_TICK_SIZE', 'TICK_SIZE'],
+    pattern: /tick[ _]size|not a multiple of (the )?tick/i,
+    create: (message, status, data) => new InvalidTickSizeError(
+      message,
+      status,
+      data,
+      pickField(data, 'tick_size') ?? matchNumber(message, /tick[ _]size[:=\s]+([\d.]+)/i),
+      pickField(data, 'price') ?? matchNumber(message, /price[:=\s]+([\d.]+)/i)
+    ),
+  },
+  {
+    codes: ['REDUCE_ONLY_VIOLATION', 'REDUCE_ONLY'],
+    pattern: /reduce[ _-]only/i,
+    create: (message, status, data) => new ReduceOnlyViolationError(message, status, data),
+  },
+];
+
+function pickField(responseData: any, field: string): string | undefined {
+  const value = responseData?.error?.[field] ?? responseData?.[field];
+  return value !== undefined && value !== null ? String(value) : undefined;
+}
+
+function matchNumber(message: string, pattern: RegExp): string | undefined {
+  return pattern.exec(message)?.[1];
+}
+
+/**
+ * Build the most specific APIError subclass for a Pacifica error response
+ */
+export function parseApiError(message: string, status: number, responseData?: any): APIError {
+  if (status >= 400 && status < 500) {
+    const serverCode = String(responseData?.error?.code ?? responseData?.code ?? '').toUpperCase();
+    for (const matcher of API_ERROR_MATCHERS) {
+      if ((serverCode && matcher.codes.includes(serverCode)) || matcher.pattern.test(message)) {
+        return matcher.create(message, status, responseData);
+      }
+    }
+  }
+  return new APIError(message, status, responseData);
+}
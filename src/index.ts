@@ -23,8 +23,18 @@ export {
   RateLimitError,
   AuthenticationError,
   APIError,
+  UnsuccessfulResponseError,
   ValidationError,
+  RequestAbortedError,
+  CircuitOpenError,
+  InsufficientBalanceError,
+  OrderNotFoundError,
+  SignatureExpiredError,
+  InvalidTickSizeError,
+  ReduceOnlyViolationError,
+  parseApiError,
 } from './errors';
+export type { PacificaErrorOptions } from './errors';
 
 // Export utilities
 export {
@@ -44,6 +54,8 @@ export {
 // Export validation utilities
 export {
   roundToTickSize,
+  getTickSize,
+  formatToStep,
   calculateSLTP,
   validatePriceRange,
   validateMinOrderValue,
@@ -55,8 +67,154 @@ export {
   MAX_PRICE_DEVIATION,
 } from './utils/tradeValidation';
 
+// Export market metadata registry
+export { MarketRegistry } from './utils/markets';
+export type {
+  MarketSpecSource,
+  MarketSpecLookup,
+  MarketRegistryOptions,
+  MarketRefreshEvent,
+  MarketRegistryEvents,
+} from './utils/markets';
+
+// Export response normalization
+export {
+  normalizeOrder,
+  normalizePosition,
+  normalizeTrade,
+  normalizeOrderSide,
+  normalizePositionSide,
+  parseTimestamp,
+} from './utils/normalize';
+
+// Export TWAP execution tracking
+export { TWAPTracker, isTerminalTWAPStatus } from './utils/twapTracker';
+export type {
+  TWAPOrderSource,
+  TWAPUpdateStream,
+  TWAPTrackerOptions,
+  TWAPProgress,
+  TWAPTrackerEvents,
+} from './utils/twapTracker';
+
+// Export exact decimal arithmetic
+export { Decimal } from './utils/decimal';
+export type { DecimalValue, RoundingMode } from './utils/decimal';
+
+// Export pagination helpers
+export { paginate } from './utils/pagination';
+export type { HistoryPage, HistoryIteratorOptions } from './utils/pagination';
+
+// Export PnL reporting
+export { buildPnLReport, generatePnLReport, periodStart } from './utils/pnlReport';
+export type {
+  ReportPeriod,
+  PnLTotals,
+  PnLPeriodTotals,
+  PnLReport,
+  PnLReportOptions,
+  PnLReportSource,
+} from './utils/pnlReport';
+
+// Export history exporters
+export {
+  exportTradeHistory,
+  exportFundingHistory,
+  exportAccountHistory,
+  exportEquityHistory,
+  writeRows,
+  toCsvRow,
+  escapeCsvField,
+  timestampColumns,
+  defaultTradeColumns,
+  defaultFundingColumns,
+  defaultEquityColumns,
+  defaultAccountHistoryColumns,
+} from './utils/export';
+export type {
+  ExportFormat,
+  TimestampFormat,
+  ExportColumn,
+  ExportOptions,
+  ExportResult,
+  HistoryExportSource,
+} from './utils/export';
+
+// Export candle backfill helpers
+export { CANDLE_INTERVAL_MS, chunkCandleRange, mergeCandles, findCandleGaps, backfillCandles } from './utils/candles';
+export type { CandleBackfillOptions, CandleBackfillResult, CandleGap, CandleRange } from './utils/candles';
+
+// Export transports
+export { FetchTransport, NodeHttpTransport } from './utils/transport';
+export { resolveProxy, createAgent, networkHeaders } from './utils/network';
+
+// Export middleware
+export {
+  composeMiddleware,
+  retryMiddleware,
+  circuitBreakerMiddleware,
+  clockSyncMiddleware,
+  instrumentationMiddleware,
+  rateLimitMiddleware,
+  timeoutMiddleware,
+  isRetryableError,
+  isSignatureExpiredError,
+} from './utils/middleware';
+export type {
+  Middleware,
+  MiddlewareNext,
+  RequestContext,
+  RetryOptions,
+} from './utils/middleware';
+
+// Export rate limiting
+export { RateLimiter, DEFAULT_RATE_LIMIT_WEIGHTS } from './utils/rateLimiter';
+export type { RateLimiterOptions } from './utils/rateLimiter';
+
+// Export circuit breaker
+export { CircuitBreaker, defaultCircuitGroup } from './utils/circuitBreaker';
+export type {
+  CircuitState,
+  CircuitBreakerOptions,
+  CircuitStateChangeEvent,
+} from './utils/circuitBreaker';
+
+// Export clock synchronisation
+export { ClockSync } from './utils/clock';
+export type {
+  ClockSyncOptions,
+  ClockSample,
+  ClockSampleSource,
+  ClockOffsetEvent,
+  ClockDriftEvent,
+} from './utils/clock';
+
+// Export response cache
+export { ResponseCache, DEFAULT_CACHE_TTLS } from './utils/cache';
+export type { CacheableMethod, ResponseCacheOptions } from './utils/cache';
+
+// Export response validation
+export * as schema from './utils/schema';
+export type { Schema, SchemaIssue } from './utils/schema';
+export * from './utils/responseSchemas';
+
+// Export instrumentation and metrics
+export { Instrumentation } from './utils/instrumentation';
+export type {
+  InstrumentationEvents,
+  RequestEvent,
+  RetryEvent,
+  RateLimitedEvent,
+  TimeoutEvent,
+  WebSocketConnectionEvent,
+  WebSocketMessageEvent,
+} from './utils/instrumentation';
+export { MetricsCollector, endpointLabel } from './utils/metrics';
+export type { MetricsCollectorOptions } from './utils/metrics';
+
 // Export logger
-export { logger } from './utils/logger';
+export { logger, Logger, consoleSink, streamSink, formatJson, redact } from './utils/logger';
+export type { LogLevel, LogFormat, LogRecord, LogSink, LoggerOptions } from './utils/logger';
 
 // Export deposit utilities
 export {
@@ -74,13 +232,28 @@ import { SignClient } from './clients/SignClient';
 import { ApiClient } from './clients/ApiClient';
 import { WebSocketClient } from './clients/WebSocketClient';
 import { SolanaClient } from './clients/SolanaClient';
-import { PacificaConfig } from './types';
+import { RateLimiter } from './utils/rateLimiter';
+import { CircuitBreaker } from './utils/circuitBreaker';
+import { ClockSync } from './utils/clock';
+import { ResponseCache } from './utils/cache';
+import { MarketRegistry } from './utils/markets';
+import { Instrumentation } from './utils/instrumentation';
+import { logger as defaultLogger, Logger } from './utils/logger';
+import { PacificaConfig, Transport } from './types';
+import { NodeHttpTransport } from './utils/transport';
 
 export class PacificaSDK {
   public signClient: SignClient;
   public apiClient: ApiClient;
   public wsClient: WebSocketClient;
   public solanaClient: SolanaClient;
+  public rateLimiter?: RateLimiter;
+  public circuitBreaker?: CircuitBreaker;
+  public clockSync?: ClockSync;
+  public cache?: ResponseCache;
+  public markets?: MarketRegistry;
+  public instrumentation: Instrumentation;
+  public logger: Logger;
 
   constructor(
     privateKey: string | Uint8Array,
@@ -94,24 +267,78 @@ export class PacificaSDK {
       solanaRpcUrl?: string;
     }
   ) {
-    this.signClient = new SignClient(privateKey, {
+    // One logger for every client; each adds its own name as context
+    this.logger = config?.logger
+      ?? (config?.logLevel ? new Logger({ level: config.logLevel }) : defaultLogger);
+
+    // One limiter shared by every client so they draw from the same budget
+    this.rateLimiter = config?.rateLimiter
+      ?? (config?.enableRateLimit ? new RateLimiter(config.rateLimit) : undefined);
+    if (config?.circuitBreaker) {
+      this.circuitBreaker = config.circuitBreaker instanceof CircuitBreaker
+        ? config.circuitBreaker
+        : new CircuitBreaker({ logger: this.logger, ...config.circuitBreaker });
+    }
+    if (config?.clockSync) {
+      this.clockSync = config.clockSync instanceof ClockSync
+        ? config.clockSync
+        : new ClockSync({ logger: this.logger, ...config.clockSync });
+    }
+    // Every client reports to one instrumentation source; attach a MetricsCollector to export it
+    this.instrumentation = config?.instrumentation ?? new Instrumentation();
+    // Shared so signed settings updates invalidate what ApiClient has cached
+    if (config?.cache) {
+      this.cache = config.cache instanceof ResponseCache
+        ? config.cache
+        : new ResponseCache(config.cache);
+    }
+
+    // One pooled transport so REST clients share keep-alive connections and proxy settings
+    const transport: Transport | undefined = config?.transport
+      ?? (config?.network ? new NodeHttpTransport(config.network) : undefined);
+
+    this.apiClient = new ApiClient({
       baseUrl: config?.baseUrl,
-      accountPublicKey: config?.accountPublicKey,
-      agentWalletPublicKey: config?.agentWalletPublicKey,
-      builderCode: config?.builderCode,
-      expiryWindow: config?.expiryWindow,
       timeout: config?.timeout,
       retryAttempts: config?.retryAttempts,
       retryDelay: config?.retryDelay,
-      logLevel: config?.logLevel,
+      logger: this.logger,
+      transport,
+      network: config?.network,
+      rateLimiter: this.rateLimiter,
+      circuitBreaker: this.circuitBreaker,
+      clockSync: this.clockSync,
+      cache: this.cache,
+      responseValidation: config?.responseValidation,
+      instrumentation: this.instrumentation,
     });
 
-    this.apiClient = new ApiClient({
+    // Market specs are loaded through the ApiClient and shared with SignClient pre-flight checks
+    if (config?.markets) {
+      this.markets = config.markets instanceof MarketRegistry
+        ? config.markets
+        : new MarketRegistry(this.apiClient, { logger: this.logger, ...config.markets });
+    }
+
+    this.signClient = new SignClient(privateKey, {
       baseUrl: config?.baseUrl,
+      accountPublicKey: config?.accountPublicKey,
+      agentWalletPublicKey: config?.agentWalletPublicKey,
+      builderCode: config?.builderCode,
+      expiryWindow: config?.expiryWindow,
       timeout: config?.timeout,
       retryAttempts: config?.retryAttempts,
       retryDelay: config?.retryDelay,
-      logLevel: config?.logLevel,
+      logger: this.logger,
+      transport,
+      network: config?.network,
+      rateLimiter: this.rateLimiter,
+      circuitBreaker: this.circuitBreaker,
+      clockSync: this.clockSync,
+      cache: this.cache,
+      markets: this.markets,
+      responseValidation: config?.responseValidation,
+      instrumentation: this.instrumentation,
     });
 
     this.wsClient = new WebSocketClient({
@@ -121,6 +348,12 @@ export class PacificaSDK {
       accountPublicKey: config?.accountPublicKey,
       agentWalletPublicKey: config?.agentWalletPublicKey,
       builderCode: config?.builderCode,
+      rateLimiter: this.rateLimiter,
+      clockSync: this.clockSync,
+      instrumentation: this.instrumentation,
+      logger: this.logger,
+      network: config?.network,
+      responseValidation: config?.responseValidation,
     });
 
     this.solanaClient = new SolanaClient(privateKey, {
@@ -2,6 +2,15 @@
  * Pacifica TypeScript SDK - Type Definitions
  */
 
+import type { RateLimiter, RateLimiterOptions } from '../utils/rateLimiter';
+import type { CircuitBreaker, CircuitBreakerOptions } from '../utils/circuitBreaker';
+import type { ClockSync, ClockSyncOptions } from '../utils/clock';
+import type { ResponseCache, ResponseCacheOptions } from '../utils/cache';
+import type { Instrumentation } from '../utils/instrumentation';
+import type { Logger } from '../utils/logger';
+import type { MarketRegistry, MarketRegistryOptions } from '../utils/markets';
+import type { Decimal } from '../utils/decimal';
+
 // Base types
 export type OperationType =
   | 'create_order'
@@ -57,9 +66,13 @@ export interface SignedRequest {
   expiry_window?: number;
 }
 
-export interface RequestOptions {
+export interface CallOptions {
+  timeout?: number;  // Per-attempt timeout in milliseconds (overrides the client timeout)
+  signal?: AbortSignal;  // Cancels the call, including any pending retries
+}
+
+export interface RequestOptions extends CallOptions {
   agent_wallet?: string;
-  timeout?: number;
   hardware_wallet_path?: string;
 }
 
@@ -138,6 +151,82 @@ export interface TWAPOrder {
   status: string;
   created_at: string;
   client_order_id?: string;
+  filled_amount?: string;  // Amount executed so far
+  average_fill_price?: string;  // Volume-weighted price of the fills so far
+  updated_at?: string | number;
+}
+
+// Signed operation results
+export interface CreateOrderResult {
+  order_id: number;
+  client_order_id?: string;
+}
+
+export interface CancelResult {
+  order_id?: number;
+  client_order_id?: string;
+  cancelled_count?: number;  // Set by cancelAllOrders
+}
+
+export interface ClosePositionResult extends CreateOrderResult {
+  symbol: string;
+  side: OrderSide;  // Side of the closing order, opposite to the position
+  amount: string;  // Amount the closing order was sent for
+  remainingAmount: string;  // Position size after the close, as last read
+  flat: boolean;  // No position left; only confirmed when confirm is enabled
+}
+
+export interface CloseAllPositionsResult {
+  closed: ClosePositionResult[];
+  failed: { symbol: string; error: Error }[];
+  flat: boolean;  // Every position was closed and confirmed flat
+}
+
+export interface BatchActionResult {
+  success: boolean;
+  order_id?: number;  // Set for successful Create actions
+  error?: string | null;
+}
+
+export interface BatchOrderResult {
+  results: BatchActionResult[];  // One entry per action, in request order
+}
+
+export interface WithdrawResult {
+  amount?: string;
+  currency?: string;
+  address?: string;
+  status?: string;
+}
+
+export interface SubaccountResult {
+  subaccount_id?: string;
+  main_account?: string;
+  subaccount?: string;  // Subaccount public key
+  amount?: string;  // Set by subaccountTransfer
+}
+
+// Data of operations that only confirm success, such as leverage, margin mode, TP/SL,
+// agent wallet, IP whitelist and builder code updates. Pacifica sends null.
+export type AckResult = Record<string, unknown> | null;
+
+export interface ApiKeyResult {
+  api_key: string;
+}
+
+export interface ApiKeyList {
+  active_api_keys: string[];
+  api_key_limit?: number;  // Maximum number of active keys
+}
+
+export interface AgentWalletInfo {
+  agent_wallet: string;  // Agent wallet public key
+  created_at?: number;
+}
+
+export interface AgentIPWhitelist {
+  ip_addresses: string[];
+  enabled?: boolean;  // Whether the whitelist is enforced
 }
 
 export interface BatchOrderAction {
@@ -145,18 +234,33 @@ export interface BatchOrderAction {
   data: Record<string, any>;
 }
 
+// Raw order as returned by the API. Pacifica uses order_id/symbol/initial_amount and bid/ask;
+// the id/market/size/buy/sell spellings are accepted as well. Use NormalizedOrder for one shape.
 export interface Order {
-  id: string;
-  market: string;
-  side: 'buy' | 'sell';
-  size: string;
+  order_id?: number | string;
+  id?: string;
+  client_order_id?: string;
+  symbol?: string;
+  market?: string;
+  side: RawSide;
+  initial_amount?: string;
+  amount?: string;
+  size?: string;
   price?: string;
-  status: string;
-  created_at: string;
+  stop_price?: string;
+  filled_amount?: string;
   filled_size?: string;
+  cancelled_amount?: string;
   remaining_size?: string;
+  order_type?: string;
+  reduce_only?: boolean;
+  status?: string;  // Present in order history; open orders omit it
+  created_at?: string | number;
+  updated_at?: string | number;
 }
 
+export type RawSide = 'bid' | 'ask' | 'buy' | 'sell' | 'long' | 'short';
+
 // Account types
 export interface UpdateLeverageParams {
   market: string;
@@ -211,23 +315,38 @@ export interface SetPositionTPSLParams {
 export interface ClosePositionParams {
   market: string;
   size?: string; // Optional: close specific size, otherwise closes entire position
+  slippage_percent?: string; // Maximum slippage for the closing market order (default '0.5')
+  client_order_id?: string;
+  confirm?: boolean; // Re-read the position until it is reduced (default true)
+  confirmTimeoutMs?: number; // How long to wait for the position to update (default 5000)
 }
 
+export type CloseAllPositionsParams = Omit<ClosePositionParams, 'market' | 'size' | 'client_order_id'>;
+
 export interface ModifyPositionParams {
   market: string;
   leverage?: number;
   margin_mode?: 'isolated' | 'cross';
 }
 
+// Raw position as returned by the API. Pacifica uses symbol/amount and bid (long)/ask (short);
+// the market/size/long/short spellings are accepted as well. Use NormalizedPosition for one shape.
 export interface Position {
-  market: string;
-  side: 'long' | 'short';
-  size: string;
+  symbol?: string;
+  market?: string;
+  side: RawSide;
+  amount?: string;
+  size?: string;
   entry_price: string;
-  mark_price: string;
+  mark_price?: string;
   liquidation_price?: string;
-  unrealized_pnl: string;
-  leverage: number;
+  unrealized_pnl?: string;
+  margin?: string;
+  funding?: string;
+  isolated?: boolean;
+  leverage?: number;
+  created_at?: number;
+  updated_at?: number;
 }
 
 // Subaccount types
@@ -306,6 +425,22 @@ export interface MarketInfo {
   status: string;
 }
 
+// Trading rules for a market, from GET /info
+export interface MarketSpec {
+  symbol: string;
+  tick_size: string;  // Price increment
+  min_tick?: string;  // Lowest accepted price
+  max_tick?: string;  // Highest accepted price
+  lot_size: string;  // Amount increment
+  max_leverage: number;
+  isolated_only?: boolean;
+  min_order_size: string;  // Minimum order value in USD
+  max_order_size?: string;  // Maximum order value in USD
+  funding_rate?: string;
+  next_funding_rate?: string;
+  status?: string;  // Trading status; markets without one are treated as active
+}
+
 export interface Ticker {
   market: string;
   last_price: string;
@@ -336,6 +471,9 @@ export interface PriceData {
   timestamp: number;
 }
 
+// Fixed-width candle intervals
+export type CandleInterval = '1m' | '3m' | '5m' | '15m' | '30m' | '1h' | '2h' | '4h' | '6h' | '8h' | '12h' | '1d' | '3d' | '1w';
+
 export interface CandleData {
   t: number;  // Start time
   T: number;  // Close time
@@ -401,6 +539,36 @@ export interface AccountEquityHistoryItem {
   unrealized_pnl: string;
 }
 
+export interface AccountInfo {
+  balance: string;  // Deposited collateral
+  fee_level: number;  // Fee tier
+  account_equity: string;  // Balance plus unrealized PnL
+  available_to_spend: string;  // Margin available for new orders
+  available_to_withdraw?: string;
+  pending_balance: string;  // Withdrawals not yet settled
+  total_margin_used: string;
+  cross_mmr: string;  // Cross maintenance margin requirement
+  positions_count?: number;
+  orders_count?: number;
+  stop_orders_count?: number;
+  updated_at?: number;
+}
+
+export interface Balance {
+  currency: string;
+  balance: string;
+  available_to_withdraw?: string;
+  pending_balance?: string;  // Withdrawals not yet settled
+}
+
+export interface AccountHistoryItem {
+  amount: string;  // Signed change in balance
+  balance: string;  // Balance after the event
+  pending_balance?: string;
+  event_type: string;  // e.g. deposit, withdraw, trade, funding
+  created_at: number;
+}
+
 export interface AccountSettings {
   symbol: string;
   isolated: boolean;
@@ -409,6 +577,24 @@ export interface AccountSettings {
   updated_at: number;
 }
 
+// Account snapshot
+// Each section holds its data or the error that prevented fetching it
+export type SnapshotSection<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: Error };
+
+export interface AccountSnapshot {
+  account: string;
+  fetchedAt: number;  // Time all sections had settled (ms)
+  complete: boolean;  // True when every section was fetched
+  accountInfo: SnapshotSection<AccountInfo>;
+  positions: SnapshotSection<NormalizedPosition[]>;
+  openOrders: SnapshotSection<NormalizedOrder[]>;
+  twapOrders: SnapshotSection<TWAPOrder[]>;
+  settings: SnapshotSection<AccountSettings[]>;
+  builderApprovals: SnapshotSection<BuilderCodeApproval[]>;
+}
+
 // Pagination support
 export interface PaginatedResponse<T> {
   success: boolean;
@@ -430,9 +616,66 @@ export interface Trade {
   timestamp: number;
 }
 
+// Normalized models
+// Consistent field names, sides and exact numeric values regardless of the raw payload shape
+
+export type OrderSide = 'bid' | 'ask';  // bid buys, ask sells
+
+export type PositionSide = 'long' | 'short';
+
+export interface NormalizedOrder {
+  id: string;
+  clientOrderId?: string;
+  symbol: string;
+  side: OrderSide;
+  orderType?: string;
+  price?: Decimal;  // Undefined for market orders
+  stopPrice?: Decimal;
+  amount: Decimal;  // Original order amount
+  filledAmount: Decimal;
+  remainingAmount: Decimal;
+  status?: string;  // Lowercase status, if reported
+  reduceOnly: boolean;
+  createdAt?: number;  // Milliseconds since epoch
+  raw: Order;
+}
+
+export interface NormalizedPosition {
+  symbol: string;
+  side: PositionSide;
+  amount: Decimal;  // Absolute position size
+  entryPrice: Decimal;
+  markPrice?: Decimal;
+  liquidationPrice?: Decimal;
+  unrealizedPnl?: Decimal;
+  margin?: Decimal;
+  leverage?: number;
+  isolated?: boolean;
+  raw: Position;
+}
+
+export interface NormalizedTrade {
+  id: string;  // history_id for account trades, trade id for public trades
+  orderId?: string;
+  clientOrderId?: string;
+  symbol: string;
+  side: OrderSide;
+  positionEffect?: 'open' | 'close';  // From sides such as open_long / close_short
+  amount: Decimal;
+  price: Decimal;
+  entryPrice?: Decimal;
+  fee?: Decimal;
+  pnl?: Decimal;
+  eventType?: string;
+  cause?: string;
+  timestamp: number;  // Milliseconds since epoch
+  raw: Trade | TradeHistoryItem;
+}
+
 // WebSocket types
 export interface WebSocketMessage {
   type: string;
+  id?: string;  // Correlates a trading operation with its response
   channel?: string;
   data?: any;
   operation?: OperationType;
@@ -440,13 +683,76 @@ export interface WebSocketMessage {
   signature?: string;
 }
 
+// Heartbeat reply; timestamp is the server time in milliseconds
+export interface WebSocketPongFrame {
+  channel: 'pong';
+  timestamp?: number;
+  t?: number;
+  server_time?: number;
+}
+
+// Subscription data and signed operation replies
+export interface WebSocketDataFrame extends WebSocketMessage {
+  server_time?: number;  // Server clock (ms), when the frame carries one
+  source?: string;  // Originating stream for account TWAP frames
+  code?: number | string;  // Operation replies: 200 on success
+  err?: string | null;  // Operation replies: failure reason
+  error?: { code?: string | number; message?: string } | null;
+}
+
+export type WebSocketFrame = WebSocketPongFrame | WebSocketDataFrame;
+
 export interface WebSocketConfig {
   url?: string;
   reconnect?: boolean;
   reconnectInterval?: number;
   maxReconnectAttempts?: number;
+  operationTimeout?: number;  // Time to wait for a trading operation's response (default 30000 ms)
+}
+
+// HTTP transport
+export interface TransportRequest {
+  method: 'GET' | 'POST';
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
 }
 
+/**
+ * Subset of the fetch Response interface the clients rely on
+ */
+export interface TransportResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: { get(name: string): string | null };
+  json(): Promise<any>;
+  text(): Promise<string>;
+}
+
+export interface Transport {
+  request(request: TransportRequest): Promise<TransportResponse>;
+}
+
+// Network settings shared by REST and WebSocket connections
+export interface NetworkOptions {
+  proxy?: string | false;  // Proxy URL; defaults to HTTPS_PROXY/HTTP_PROXY (honouring NO_PROXY), false disables
+  keepAlive?: boolean;  // Reuse REST connections (default true)
+  maxSockets?: number;  // Maximum concurrent REST connections per host
+  headers?: Record<string, string>;  // Extra headers for every request and WebSocket handshake
+  userAgent?: string;  // User-Agent header value
+  tls?: {
+    ca?: string | Buffer | Array<string | Buffer>;  // Trusted CA bundle (PEM)
+    cert?: string | Buffer;  // Client certificate (PEM)
+    key?: string | Buffer;  // Client certificate private key (PEM)
+    rejectUnauthorized?: boolean;  // Verify the server certificate (default true)
+  };
+}
+
+// How responses are checked against their runtime schemas
+export type ResponseValidationMode = 'off' | 'strict' | 'lenient';
+
 // Client configuration
 export interface PacificaConfig {
   baseUrl?: string;
@@ -456,7 +762,18 @@ export interface PacificaConfig {
   retryAttempts?: number;
   retryDelay?: number;
   enableRateLimit?: boolean;
-  logLevel?: 'debug' | 'info' | 'warn' | 'error' | 'silent';
+  rateLimit?: RateLimiterOptions;  // Token bucket settings used when enableRateLimit is set
+  rateLimiter?: RateLimiter;  // Shared limiter instance (takes precedence over rateLimit)
+  circuitBreaker?: CircuitBreaker | CircuitBreakerOptions;  // Enables the circuit breaker
+  clockSync?: ClockSync | ClockSyncOptions;  // Signs with server-synchronised timestamps
+  cache?: ResponseCache | ResponseCacheOptions;  // Caches prices, market info and account settings
+  markets?: MarketRegistry | MarketRegistryOptions;  // Market specs for order pre-flight checks
+  responseValidation?: ResponseValidationMode;  // strict throws ValidationError, lenient logs (default off); unnormalizable items are dropped unless strict
+  instrumentation?: Instrumentation;  // Receives request and WebSocket instrumentation events
+  logLevel?: 'debug' | 'info' | 'warn' | 'error' | 'silent';  // Level of the client's own logger when none is given
+  logger?: Logger;  // Logger instance for this client (takes precedence over logLevel)
+  transport?: Transport;  // Custom HTTP transport (defaults to global fetch, or NodeHttpTransport with network or a proxy env var)
+  network?: NetworkOptions;  // Proxy, keep-alive, TLS and header settings; HTTPS_PROXY/HTTP_PROXY apply without it
 }
 
 // Hardware wallet support
@@ -0,0 +1,119 @@
+/**
+ * Response cache for read-only API requests
+ * Shares in-flight requests between identical callers and keeps results for a short TTL
+ */
+
+export type CacheableMethod = 'getPrices' | 'getMarketInfo' | 'getAccountSettings';
+
+export interface ResponseCacheOptions {
+  ttls?: Partial<Record<CacheableMethod, number>>;  // Time to keep results per ApiClient method (ms)
+}
+
+/**
+ * Default TTLs. Prices move every tick, market specs rarely change and
+ * account settings are invalidated explicitly after signed updates.
+ */
+export const DEFAULT_CACHE_TTLS: Record<CacheableMethod, number> = {
+  getPrices: 1000,
+  getMarketInfo: 60000,
+  getAccountSettings: 30000,
+};
+
+interface CacheEntry {
+  value: any;
+  expiresAt: number;
+}
+
+export class ResponseCache {
+  private readonly ttls: Record<CacheableMethod, number>;
+  private entries: Map<string, CacheEntry> = new Map();
+  private inFlight: Map<string, Promise<any>> = new Map();
+
+  constructor(options?: ResponseCacheOptions) {
+    this.ttls = { ...DEFAULT_CACHE_TTLS, ...options?.ttls };
+  }
+
+  /**
+   * TTL configured for an ApiClient method
+   */
+  ttlFor(method: CacheableMethod): number {
+    return this.ttls[method];
+  }
+
+  /**
+   * Return a cached value for `key`, join an identical in-flight request,
+   * or call `load`. Results accepted by `shouldCache` are kept for `ttlMs`; errors are never cached.
+   */
+  getOrLoad<T>(
+    key: string,
+    ttlMs: number,
+    load: () => Promise<T>,
+    shouldCache: (value: T) => boolean = () => true
+  ): Promise<T> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      if (entry.expiresAt > Date.now()) {
+        return Promise.resolve(entry.value);
+      }
+      this.entries.delete(key);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const promise = load().then(
+      (value) => {
+        // Only store if the request was not invalidated while in flight
+        if (this.inFlight.get(key) === promise) {
+          this.inFlight.delete(key);
+          if (ttlMs > 0 && shouldCache(value)) {
+            this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+          }
+        }
+        return value;
+      },
+      (error) => {
+        if (this.inFlight.get(key) === promise) {
+          this.inFlight.delete(key);
+        }
+        throw error;
+      }
+    );
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Drop cached and in-flight results whose key starts with `prefix`,
+   * e.g. '/account/settings' after a leverage change
+   */
+  invalidate(prefix: string): void {
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+    for (const key of Array.from(this.inFlight.keys())) {
+      if (key.startsWith(prefix)) {
+        this.inFlight.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Drop everything
+   */
+  clear(): void {
+    this.entries.clear();
+    this.inFlight.clear();
+  }
+
+  /**
+   * Number of cached results, including expired ones not yet evicted
+   */
+  size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Candle backfill helpers
+ * Splits a time range into page-sized requests, merges the pages by open time
+ * and reports candles the server did not return.
+ */
+
+import { ApiResponse, CallOptions, CandleInterval } from '../types';
+import { UnsuccessfulResponseError, ValidationError } from '../errors';
+
+/**
+ * Duration of each candle interval in milliseconds
+ */
+export const CANDLE_INTERVAL_MS: Record<CandleInterval, number> = {
+  '1m': 60_000,
+  '3m': 3 * 60_000,
+  '5m': 5 * 60_000,
+  '15m': 15 * 60_000,
+  '30m': 30 * 60_000,
+  '1h': 3_600_000,
+  '2h': 2 * 3_600_000,
+  '4h': 4 * 3_600_000,
+  '6h': 6 * 3_600_000,
+  '8h': 8 * 3_600_000,
+  '12h': 12 * 3_600_000,
+  '1d': 86_400_000,
+  '3d': 3 * 86_400_000,
+  '1w': 7 * 86_400_000,
+};
+
+export interface CandleBackfillOptions {
+  pageSize?: number;  // Candles per request (default 1000)
+  concurrency?: number;  // Requests in flight at once (default 4)
+  callOptions?: CallOptions;  // Per-request timeout and abort signal
+}
+
+export interface CandleRange {
+  start: number;  // Inclusive start time (ms)
+  end: number;  // Exclusive end time (ms)
+}
+
+export interface CandleGap extends CandleRange {
+  missing: number;  // Number of candles missing in this range
+}
+
+export interface CandleBackfillResult<T> {
+  candles: T[];  // Candles sorted by open time, one per open time
+  gaps: CandleGap[];  // Ranges with no candle from the server
+  requests: number;  // Number of page requests made
+}
+
+/**
+ * Split [start, end) into ranges of at most `pageSize` candles.
+ * The start is aligned down to the interval boundary (Monday 00:00 UTC for 1w).
+ */
+export function chunkCandleRange(start: number, end: number, interval: CandleInterval, pageSize: number): CandleRange[] {
+  const intervalMs = CANDLE_INTERVAL_MS[interval];
+  if (!intervalMs) {
+    throw new ValidationError(`Unsupported candle interval: ${interval}`, 'interval');
+  }
+  if (!(end > start)) {
+    throw new ValidationError('endTime must be after startTime', 'endTime');
+  }
+  if (!Number.isInteger(pageSize) || pageSize <= 0) {
+    throw new ValidationError('pageSize must be a positive integer', 'pageSize');
+  }
+
+  const chunks: CandleRange[] = [];
+  const span = intervalMs * pageSize;
+  for (let chunkStart = alignDown(start, interval); chunkStart < end; chunkStart += span) {
+    chunks.push({ start: chunkStart, end: Math.min(chunkStart + span, end) });
+  }
+  return chunks;
+}
+
+/**
+ * Merge candle pages, keeping one candle per open time inside [start, end), sorted ascending.
+ * Later pages win when open times collide.
+ */
+export function mergeCandles<T extends { t: number }>(pages: T[][], start: number, end: number): T[] {
+  const byOpenTime = new Map<number, T>();
+  for (const page of pages) {
+    for (const candle of page) {
+      if (candle.t >= start && candle.t < end) {
+        byOpenTime.set(candle.t, candle);
+      }
+    }
+  }
+  return Array.from(byOpenTime.values()).sort((a, b) => a.t - b.t);
+}
+
+/**
+ * Find contiguous runs of expected open times in [start, end) with no candle
+ */
+export function findCandleGaps(candles: Array<{ t: number }>, start: number, end: number, interval: CandleInterval): CandleGap[] {
+  const intervalMs = CANDLE_INTERVAL_MS[interval];
+  const present = new Set(candles.map((candle) => candle.t));
+  const gaps: CandleGap[] = [];
+  let current: CandleGap | undefined;
+
+  for (let openTime = alignDown(start, interval); openTime < end; openTime += intervalMs) {
+    if (present.has(openTime)) {
+      current = undefined;
+      continue;
+    }
+    if (current) {
+      current.end = openTime + intervalMs;
+      current.missing++;
+    } else {
+      current = { start: openTime, end: openTime + intervalMs, missing: 1 };
+      gaps.push(current);
+    }
+  }
+  return gaps;
+}
+
+/**
+ * Fetch every chunk of [start, end) with bounded concurrency, then merge and check for gaps
+ */
+export async function backfillCandles<T extends { t: number }>(
+  fetchChunk: (range: CandleRange, pageSize: number) => Promise<ApiResponse<T[]>>,
+  interval: CandleInterval,
+  start: number,
+  end: number,
+  options?: CandleBackfillOptions
+): Promise<CandleBackfillResult<T>> {
+  const pageSize = options?.pageSize ?? 1000;
+  const concurrency = Math.max(1, options?.concurrency ?? 4);
+  const chunks = chunkCandleRange(start, end, interval, pageSize);
+  const pages: T[][] = new Array(chunks.length);
+
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    // Stop picking up chunks once any request has failed
+    while (!failed && next < chunks.length) {
+      const index = next++;
+      try {
+        const response = await fetchChunk(chunks[index], pageSize);
+        if (!response.success) {
+          throw new UnsuccessfulResponseError(response.error?.message ?? 'Candle request failed', response);
+        }
+        pages[index] = response.data ?? [];
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+
+  const rangeStart = alignDown(start, interval);
+  const candles = mergeCandles(pages, rangeStart, end);
+  return {
+    candles,
+    gaps: findCandleGaps(candles, rangeStart, end, interval),
+    requests: chunks.length,
+  };
+}
+
+// The Unix epoch was a Thursday; weekly candles open on Monday 00:00 UTC
+const WEEK_OFFSET_MS = 4 * 86_400_000;
+
+function alignDown(time: number, interval: CandleInterval): number {
+  const intervalMs = CANDLE_INTERVAL_MS[interval];
+  const offset = interval === '1w' ? WEEK_OFFSET_MS : 0;
+  return Math.floor((time - offset) / intervalMs) * intervalMs + offset;
+}
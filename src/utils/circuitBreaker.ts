@@ -0,0 +1,236 @@
+/**
+ * Circuit breaker for the Pacifica REST API
+ * Tracks failures per endpoint group and fails fast while a group is unhealthy
+ */
+
+import {
+  APIError,
+  CircuitOpenError,
+  NetworkError,
+  RateLimitError,
+  TimeoutError,
+} from '../errors';
+import { TypedEventEmitter } from './events';
+import { logger, Logger } from './logger';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureRateThreshold?: number;  // Failure ratio that opens the circuit (default 0.5)
+  minimumRequests?: number;  // Calls in the window before the rate is evaluated (default 10)
+  windowSize?: number;  // Number of recent calls tracked per group (default 20)
+  openDurationMs?: number;  // Time spent open before probing (default 30000)
+  halfOpenMaxProbes?: number;  // Probes allowed while half-open; all must succeed to close (default 1)
+  groupFor?: (endpoint: string) => string;  // Maps an endpoint to its group
+  logger?: Logger;  // Logger for state transitions (defaults to the SDK logger)
+}
+
+export interface CircuitStateChangeEvent {
+  group: string;
+  from: CircuitState;
+  to: CircuitState;
+  failureRate: number;
+  timestamp: number;
+}
+
+export interface CircuitBreakerEvents {
+  state_change: CircuitStateChangeEvent;
+}
+
+interface Circuit {
+  state: CircuitState;
+  outcomes: boolean[];  // true = success, most recent last
+  openedAt: number;
+  probesInFlight: number;
+  probeSuccesses: number;
+}
+
+/**
+ * Group endpoints by their first path segment, e.g. '/orders/create' -> 'orders'
+ */
+export function defaultCircuitGroup(endpoint: string): string {
+  const segment = endpoint.split('?')[0].split('/').filter(Boolean)[0];
+  return segment || 'default';
+}
+
+/**
+ * Errors that indicate the API is degraded. Client errors (4xx) do not count.
+ */
+function isFailure(error: any): boolean {
+  return error instanceof NetworkError
+    || error instanceof TimeoutError
+    || error instanceof RateLimitError
+    || (error instanceof APIError && error.status >= 500);
+}
+
+export class CircuitBreaker extends TypedEventEmitter<CircuitBreakerEvents> {
+  private readonly failureRateThreshold: number;
+  private readonly minimumRequests: number;
+  private readonly windowSize: number;
+  private readonly openDurationMs: number;
+  private readonly halfOpenMaxProbes: number;
+  readonly groupFor: (endpoint: string) => string;
+  private circuits: Map<string, Circuit> = new Map();
+  private readonly logger: Logger;
+
+  constructor(options?: CircuitBreakerOptions) {
+    super();
+    this.failureRateThreshold = options?.failureRateThreshold ?? 0.5;
+    this.minimumRequests = options?.minimumRequests ?? 10;
+    this.windowSize = Math.max(options?.windowSize ?? 20, this.minimumRequests);
+    this.openDurationMs = options?.openDurationMs ?? 30000;
+    this.halfOpenMaxProbes = options?.halfOpenMaxProbes ?? 1;
+    this.groupFor = options?.groupFor ?? defaultCircuitGroup;
+    this.logger = options?.logger ?? logger;
+  }
+
+  /**
+   * Run `fn` under the circuit for `group`.
+   * Throws CircuitOpenError without calling `fn` while the circuit is open.
+   */
+  async execute<T>(group: string, fn: () => Promise<T>): Promise<T> {
+    const circuit = this.getCircuit(group);
+    this.beforeCall(group, circuit);
+
+    let result: T;
+    try {
+      result = await fn();
+    } catch (error) {
+      if (isFailure(error)) {
+        this.recordFailure(group, circuit);
+      } else if (error instanceof APIError) {
+        // The API answered, so it is healthy even though it rejected the request
+        this.recordSuccess(group, circuit);
+      } else if (circuit.state === 'half_open') {
+        // Inconclusive probe (e.g. aborted by the caller); free the slot
+        circuit.probesInFlight = Math.max(0, circuit.probesInFlight - 1);
+      }
+      throw error;
+    }
+
+    this.recordSuccess(group, circuit);
+    return result;
+  }
+
+  /**
+   * Get the current state of a group's circuit
+   */
+  getState(group: string): CircuitState {
+    const circuit = this.circuits.get(group);
+    if (!circuit) {
+      return 'closed';
+    }
+    if (circuit.state === 'open' && Date.now() - circuit.openedAt >= this.openDurationMs) {
+      return 'half_open';
+    }
+    return circuit.state;
+  }
+
+  /**
+   * Get the failure rate over the recent window for a group
+   */
+  getFailureRate(group: string): number {
+    const circuit = this.circuits.get(group);
+    if (!circuit || circuit.outcomes.length === 0) {
+      return 0;
+    }
+    const failures = circuit.outcomes.filter((success) => !success).length;
+    return failures / circuit.outcomes.length;
+  }
+
+  /**
+   * Close every circuit and forget recorded outcomes
+   */
+  reset(): void {
+    this.circuits.forEach((circuit, group) => {
+      if (circuit.state !== 'closed') {
+        this.transition(group, circuit, 'closed');
+      }
+    });
+    this.circuits.clear();
+  }
+
+  private getCircuit(group: string): Circuit {
+    let circuit = this.circuits.get(group);
+    if (!circuit) {
+      circuit = { state: 'closed', outcomes: [], openedAt: 0, probesInFlight: 0, probeSuccesses: 0 };
+      this.circuits.set(group, circuit);
+    }
+    return circuit;
+  }
+
+  private beforeCall(group: string, circuit: Circuit): void {
+    if (circuit.state === 'open') {
+      const elapsed = Date.now() - circuit.openedAt;
+      if (elapsed < this.openDurationMs) {
+        throw new CircuitOpenError(group, this.openDurationMs - elapsed);
+      }
+      this.transition(group, circuit, 'half_open');
+    }
+
+    if (circuit.state === 'half_open') {
+      if (circuit.probesInFlight >= this.halfOpenMaxProbes) {
+        throw new CircuitOpenError(group, 0);
+      }
+      circuit.probesInFlight++;
+    }
+  }
+
+  private recordSuccess(group: string, circuit: Circuit): void {
+    if (circuit.state === 'half_open') {
+      circuit.probesInFlight = Math.max(0, circuit.probesInFlight - 1);
+      circuit.probeSuccesses++;
+      if (circuit.probeSuccesses >= this.halfOpenMaxProbes) {
+        this.transition(group, circuit, 'closed');
+      }
+      return;
+    }
+    this.pushOutcome(circuit, true);
+  }
+
+  private recordFailure(group: string, circuit: Circuit): void {
+    if (circuit.state === 'half_open') {
+      circuit.probesInFlight = Math.max(0, circuit.probesInFlight - 1);
+      this.transition(group, circuit, 'open');
+      return;
+    }
+    if (circuit.state === 'open') {
+      return;
+    }
+
+    this.pushOutcome(circuit, false);
+    if (
+      circuit.outcomes.length >= this.minimumRequests
+      && this.getFailureRate(group) >= this.failureRateThreshold
+    ) {
+      this.transition(group, circuit, 'open');
+    }
+  }
+
+  private pushOutcome(circuit: Circuit, success: boolean): void {
+    circuit.outcomes.push(success);
+    if (circuit.outcomes.length > this.windowSize) {
+      circuit.outcomes.shift();
+    }
+  }
+
+  private transition(group: string, circuit: Circuit, to: CircuitState): void {
+    const from = circuit.state;
+    const failureRate = this.getFailureRate(group);
+    circuit.state = to;
+
+    if (to === 'open') {
+      circuit.openedAt = Date.now();
+    } else if (to === 'half_open') {
+      circuit.probesInFlight = 0;
+      circuit.probeSuccesses = 0;
+    } else {
+      circuit.outcomes = [];
+      circuit.probesInFlight = 0;
+      circuit.probeSuccesses = 0;
+    }
+
+    this.logger.warn(`Circuit for ${group} changed from ${from} to ${to}`);
+    this.emit('state_change', { group, from, to, failureRate, timestamp: Date.now() });
+  }
+}
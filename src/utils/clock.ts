@@ -0,0 +1,140 @@
+/**
+ * Server clock synchronisation for signature timestamps
+ * Estimates the offset between the local clock and Pacifica's servers
+ */
+
+import { TypedEventEmitter } from './events';
+import { logger, Logger } from './logger';
+
+export type ClockSampleSource = 'http_date' | 'websocket' | 'endpoint';
+
+export interface ClockSyncOptions {
+  maxDriftMs?: number;  // Offset beyond which a drift warning is emitted (default 1000)
+  smoothing?: number;  // Weight of each new sample in the running estimate, 0-1 (default 0.3)
+  logger?: Logger;  // Logger for drift warnings (defaults to the SDK logger)
+}
+
+export interface ClockSample {
+  sentAt?: number;  // Local time the request was sent; omit for server-pushed timestamps
+  receivedAt: number;  // Local time the timestamp was received
+  precisionMs?: number;  // Resolution of the server timestamp (1000 for HTTP Date headers)
+  source: ClockSampleSource;
+}
+
+export interface ClockOffsetEvent {
+  offsetMs: number;
+  source: ClockSampleSource;
+}
+
+export interface ClockDriftEvent {
+  offsetMs: number;
+  maxDriftMs: number;
+  source: ClockSampleSource;
+}
+
+export interface ClockSyncEvents {
+  offset: ClockOffsetEvent;
+  drift: ClockDriftEvent;
+}
+
+export class ClockSync extends TypedEventEmitter<ClockSyncEvents> {
+  private readonly maxDriftMs: number;
+  private readonly smoothing: number;
+  private offsetMs = 0;
+  private sampleCount = 0;
+  private drifting = false;
+  private readonly logger: Logger;
+
+  constructor(options?: ClockSyncOptions) {
+    super();
+    this.maxDriftMs = options?.maxDriftMs ?? 1000;
+    this.smoothing = options?.smoothing ?? 0.3;
+    this.logger = options?.logger ?? logger;
+  }
+
+  /**
+   * Current server time estimate in milliseconds
+   */
+  now(): number {
+    return Math.floor(Date.now() + this.offsetMs);
+  }
+
+  /**
+   * Estimated server time minus local time, in milliseconds
+   */
+  getOffset(): number {
+    return this.offsetMs;
+  }
+
+  /**
+   * Number of samples the estimate is based on
+   */
+  getSampleCount(): number {
+    return this.sampleCount;
+  }
+
+  /**
+   * Record a server timestamp. Round-trip samples use the midpoint of
+   * sentAt/receivedAt; coarse timestamps are centred within their precision.
+   */
+  addSample(serverTimeMs: number, sample: ClockSample): void {
+    if (!Number.isFinite(serverTimeMs)) {
+      return;
+    }
+
+    const localTime = sample.sentAt !== undefined
+      ? (sample.sentAt + sample.receivedAt) / 2
+      : sample.receivedAt;
+    const estimate = serverTimeMs + (sample.precisionMs ?? 0) / 2 - localTime;
+
+    this.offsetMs = this.sampleCount === 0
+      ? estimate
+      : this.offsetMs + this.smoothing * (estimate - this.offsetMs);
+    this.sampleCount++;
+
+    this.emit('offset', { offsetMs: this.offsetMs, source: sample.source });
+    this.checkDrift(sample.source);
+  }
+
+  /**
+   * Record the Date header of an HTTP response
+   */
+  addHttpDate(dateHeader: string | null, sentAt: number, receivedAt: number): void {
+    if (!dateHeader) {
+      return;
+    }
+    const serverTime = Date.parse(dateHeader);
+    if (!isNaN(serverTime)) {
+      this.addSample(serverTime, { sentAt, receivedAt, precisionMs: 1000, source: 'http_date' });
+    }
+  }
+
+  /**
+   * Measure the offset against a server time source, e.g. a time endpoint
+   * @param fetchServerTime Resolves to the server time in milliseconds
+   */
+  async sync(fetchServerTime: () => Promise<number>): Promise<number> {
+    const sentAt = Date.now();
+    const serverTime = await fetchServerTime();
+    this.addSample(serverTime, { sentAt, receivedAt: Date.now(), source: 'endpoint' });
+    return this.offsetMs;
+  }
+
+  /**
+   * Forget all samples and assume the local clock is correct
+   */
+  reset(): void {
+    this.offsetMs = 0;
+    this.sampleCount = 0;
+    this.drifting = false;
+  }
+
+  private checkDrift(source: ClockSampleSource): void {
+    const drifting = Math.abs(this.offsetMs) > this.maxDriftMs;
+    if (drifting && !this.drifting) {
+      this.logger.warn(`Local clock is ${Math.round(this.offsetMs)}ms off server time (max ${this.maxDriftMs}ms)`);
+      this.emit('drift', { offsetMs: this.offsetMs, maxDriftMs: this.maxDriftMs, source });
+    }
+    this.drifting = drifting;
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * Exact decimal arithmetic for prices and sizes
+ * Values are stored as a bigint coefficient and a base-10 scale, so the
+ * API's string amounts round-trip without floating point error.
+ */
+
+import { ValidationError } from '../errors';
+
+export type DecimalValue = Decimal | string | number | bigint;
+
+/**
+ * half_up rounds ties away from zero, down truncates toward zero,
+ * up rounds away from zero
+ */
+export type RoundingMode = 'half_up' | 'down' | 'up';
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+function pow10(exponent: number): bigint {
+  return 10n ** BigInt(exponent);
+}
+
+function abs(value: bigint): bigint {
+  return value < 0n ? -value : value;
+}
+
+/**
+ * Divide two bigints, rounding the quotient with `mode`
+ */
+function divideRounded(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === 0n) {
+    return quotient;
+  }
+
+  const sign = (numerator < 0n) !== (denominator < 0n) ? -1n : 1n;
+  switch (mode) {
+    case 'down':
+      return quotient;
+    case 'up':
+      return quotient + sign;
+    case 'half_up':
+      return abs(remainder) * 2n >= abs(denominator) ? quotient + sign : quotient;
+  }
+}
+
+export class Decimal {
+  static readonly ZERO = new Decimal(0n, 0);
+  static readonly ONE = new Decimal(1n, 0);
+
+  private constructor(
+    private readonly coefficient: bigint,
+    private readonly scale: number
+  ) {}
+
+  /**
+   * Parse a decimal string, number or bigint.
+   * Throws ValidationError for values that are not finite decimals.
+   */
+  static from(value: DecimalValue): Decimal {
+    if (value instanceof Decimal) {
+      return value;
+    }
+    if (typeof value === 'bigint') {
+      return new Decimal(value, 0);
+    }
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new ValidationError(`Invalid decimal: ${value}`);
+    }
+
+    // String(number) gives the shortest representation that round-trips
+    const text = typeof value === 'number' ? String(value) : value.trim();
+    const match = DECIMAL_PATTERN.exec(text);
+    if (!match || (!match[2] && !match[3])) {
+      throw new ValidationError(`Invalid decimal: ${value}`);
+    }
+
+    const [, sign, whole = '', fraction = '', exponentText] = match;
+    let coefficient = BigInt(`${whole}${fraction}` || '0');
+    let scale = fraction.length - (exponentText ? parseInt(exponentText, 10) : 0);
+    if (scale < 0) {
+      coefficient *= pow10(-scale);
+      scale = 0;
+    }
+    return new Decimal(sign === '-' ? -coefficient : coefficient, scale).normalize();
+  }
+
+  /**
+   * Like from(), but returns null instead of throwing for invalid input
+   */
+  static tryFrom(value: DecimalValue | null | undefined): Decimal | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    try {
+      return Decimal.from(value);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Number of digits after the decimal point, ignoring trailing zeros
+   */
+  decimalPlaces(): number {
+    return this.scale;
+  }
+
+  plus(other: DecimalValue): Decimal {
+    const [a, b, scale] = this.align(Decimal.from(other));
+    return new Decimal(a + b, scale).normalize();
+  }
+
+  minus(other: DecimalValue): Decimal {
+    const [a, b, scale] = this.align(Decimal.from(other));
+    return new Decimal(a - b, scale).normalize();
+  }
+
+  times(other: DecimalValue): Decimal {
+    const value = Decimal.from(other);
+    return new Decimal(this.coefficient * value.coefficient, this.scale + value.scale).normalize();
+  }
+
+  /**
+   * Divide, keeping at most `decimals` digits after the point
+   */
+  div(other: DecimalValue, decimals: number = 18, rounding: RoundingMode = 'half_up'): Decimal {
+    const value = Decimal.from(other);
+    if (value.coefficient === 0n) {
+      throw new ValidationError('Division by zero');
+    }
+    // (a / 10^sa) / (b / 10^sb) = (a * 10^(decimals + sb - sa) / b) / 10^decimals
+    const shift = decimals + value.scale - this.scale;
+    const numerator = shift >= 0 ? this.coefficient * pow10(shift) : this.coefficient;
+    const denominator = shift >= 0 ? value.coefficient : value.coefficient * pow10(-shift);
+    return new Decimal(divideRounded(numerator, denominator, rounding), decimals).normalize();
+  }
+
+  /**
+   * Round to `decimals` digits after the point
+   */
+  round(decimals: number, rounding: RoundingMode = 'half_up'): Decimal {
+    if (this.scale <= decimals) {
+      return this;
+    }
+    const coefficient = divideRounded(this.coefficient, pow10(this.scale - decimals), rounding);
+    return new Decimal(coefficient, decimals).normalize();
+  }
+
+  /**
+   * Round to a multiple of `step`, e.g. a market's tick or lot size
+   */
+  roundToStep(step: DecimalValue, rounding: RoundingMode = 'half_up'): Decimal {
+    const stepValue = Decimal.from(step);
+    if (stepValue.coefficient <= 0n) {
+      throw new ValidationError(`Invalid step size: ${stepValue}`);
+    }
+    const [a, b, scale] = this.align(stepValue);
+    return new Decimal(divideRounded(a, b, rounding) * b, scale).normalize();
+  }
+
+  /**
+   * Whether this value is an exact multiple of `step`
+   */
+  isMultipleOf(step: DecimalValue): boolean {
+    const [a, b] = this.align(Decimal.from(step));
+    return b !== 0n && a % b === 0n;
+  }
+
+  compare(other: DecimalValue): -1 | 0 | 1 {
+    const [a, b] = this.align(Decimal.from(other));
+    return a === b ? 0 : a < b ? -1 : 1;
+  }
+
+  eq(other: DecimalValue): boolean {
+    return this.compare(other) === 0;
+  }
+
+  lt(other: DecimalValue): boolean {
+    return this.compare(other) < 0;
+  }
+
+  lte(other: DecimalValue): boolean {
+    return this.compare(other) <= 0;
+  }
+
+  gt(other: DecimalValue): boolean {
+    return this.compare(other) > 0;
+  }
+
+  gte(other: DecimalValue): boolean {
+    return this.compare(other) >= 0;
+  }
+
+  isZero(): boolean {
+    return this.coefficient === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.coefficient < 0n;
+  }
+
+  isPositive(): boolean {
+    return this.coefficient > 0n;
+  }
+
+  abs(): Decimal {
+    return this.isNegative() ? this.neg() : this;
+  }
+
+  neg(): Decimal {
+    return new Decimal(-this.coefficient, this.scale);
+  }
+
+  /**
+   * Format with exactly `decimals` digits after the point
+   */
+  toFixed(decimals: number, rounding: RoundingMode = 'half_up'): string {
+    const rounded = this.round(decimals, rounding);
+    const digits = abs(rounded.coefficient) * pow10(decimals - rounded.scale);
+    const text = digits.toString().padStart(decimals + 1, '0');
+    const sign = rounded.coefficient < 0n ? '-' : '';
+    if (decimals === 0) {
+      return `${sign}${text}`;
+    }
+    return `${sign}${text.slice(0, -decimals)}.${text.slice(-decimals)}`;
+  }
+
+  /**
+   * Plain decimal string without exponent or trailing zeros
+   */
+  toString(): string {
+    return this.toFixed(this.scale);
+  }
+
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private align(other: Decimal): [bigint, bigint, number] {
+    const scale = Math.max(this.scale, other.scale);
+    return [
+      this.coefficient * pow10(scale - this.scale),
+      other.coefficient * pow10(scale - other.scale),
+      scale,
+    ];
+  }
+
+  private normalize(): Decimal {
+    let coefficient = this.coefficient;
+    let scale = this.scale;
+    while (scale > 0 && coefficient % 10n === 0n) {
+      coefficient /= 10n;
+      scale--;
+    }
+    return coefficient === this.coefficient ? this : new Decimal(coefficient, scale);
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Minimal typed event emitter for SDK components
+ */
+
+import { logger } from './logger';
+
+export type EventHandler<T> = (data: T) => void;
+
+export class TypedEventEmitter<TEvents extends Record<string, any>> {
+  private eventHandlers: Map<keyof TEvents, Set<EventHandler<any>>> = new Map();
+
+  /**
+   * Add event listener
+   */
+  on<K extends keyof TEvents>(event: K, handler: EventHandler<TEvents[K]>): void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, new Set());
+    }
+    this.eventHandlers.get(event)!.add(handler);
+  }
+
+  /**
+   * Remove event listener
+   */
+  off<K extends keyof TEvents>(event: K, handler: EventHandler<TEvents[K]>): void {
+    this.eventHandlers.get(event)?.delete(handler);
+  }
+
+  protected emit<K extends keyof TEvents>(event: K, data: TEvents[K]): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      handlers.forEach((handler) => {
+        try {
+          handler(data);
+        } catch (error) {
+          logger.error(`Error in ${String(event)} handler:`, error);
+        }
+      });
+    }
+  }
+}
@@ -0,0 +1,345 @@
+/**
+ * Streaming CSV (RFC 4180) and NDJSON exporters for account history
+ * Rows are written as pages arrive and writes wait for 'drain' when the stream is full.
+ */
+
+import { once } from 'events';
+import {
+  AccountEquityHistoryItem,
+  AccountHistoryItem,
+  ApiResponse,
+  CallOptions,
+  FundingHistoryItem,
+  NormalizedTrade,
+} from '../types';
+import { UnsuccessfulResponseError, ValidationError } from '../errors';
+import { Decimal } from './decimal';
+import { HistoryIteratorOptions } from './pagination';
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+export type TimestampFormat = 'both' | 'iso' | 'epoch';
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => unknown;
+}
+
+export interface ExportOptions<T> {
+  format?: ExportFormat;  // Output format (default 'csv')
+  columns?: ExportColumn<T>[];  // Replace the default columns
+  timestamps?: TimestampFormat;  // Timestamp columns in the defaults: ISO, epoch ms or both (default 'both')
+  header?: boolean;  // Write the CSV header row (default true); disable when appending
+  symbol?: string;  // Only export this market (trade and funding history)
+  startTime?: number;  // Export items from this time (ms)
+  endTime?: number;  // Export items up to this time (ms)
+  afterHistoryId?: number;  // Resume trade or funding history: stop at the first item at or below this history_id
+  callOptions?: CallOptions;  // Per-request timeout and abort signal
+}
+
+export interface ExportResult {
+  rows: number;  // Rows written, excluding the header
+  lastHistoryId?: number;  // Highest history_id written (trade and funding history); pass as afterHistoryId next time
+  lastTimestamp?: number;  // Latest timestamp written (ms); resume other exports with startTime: lastTimestamp + 1
+}
+
+/**
+ * History endpoints the exporters read from, such as an ApiClient
+ */
+export interface HistoryExportSource {
+  iterateTradeHistory(account: string, options?: HistoryIteratorOptions<NormalizedTrade>): AsyncIterable<NormalizedTrade>;
+  iterateFundingHistory(account: string, options?: HistoryIteratorOptions<FundingHistoryItem>): AsyncIterable<FundingHistoryItem>;
+  iterateAccountHistory(account: string, options?: HistoryIteratorOptions<AccountHistoryItem>): AsyncIterable<AccountHistoryItem>;
+  getAccountEquityHistory(
+    account: string,
+    timeRangeOrStartTime?: string | number,
+    endTime?: number,
+    limit?: number,
+    options?: CallOptions
+  ): Promise<ApiResponse<AccountEquityHistoryItem[]>>;
+}
+
+/**
+ * Quote a CSV field when it contains a comma, quote or line break (RFC 4180)
+ */
+export function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Format one CSV record, terminated with CRLF
+ */
+export function toCsvRow(values: unknown[]): string {
+  return `${values.map((value) => escapeCsvField(formatValue(value))).join(',')}\r\n`;
+}
+
+/**
+ * Columns for a timestamp: ISO 8601 and/or epoch milliseconds
+ */
+export function timestampColumns<T>(
+  value: (row: T) => number | undefined,
+  format: TimestampFormat = 'both',
+  prefix = 'time'
+): ExportColumn<T>[] {
+  const columns: ExportColumn<T>[] = [];
+  if (format !== 'epoch') {
+    columns.push({ header: prefix, value: (row) => toIso(value(row)) });
+  }
+  if (format !== 'iso') {
+    columns.push({ header: `${prefix}_ms`, value });
+  }
+  return columns;
+}
+
+/**
+ * Write rows to a stream as CSV or NDJSON, waiting for 'drain' when the stream applies backpressure.
+ * The stream is not ended.
+ */
+export async function writeRows<T>(
+  rows: AsyncIterable<T> | Iterable<T>,
+  stream: NodeJS.WritableStream,
+  columns: ExportColumn<T>[],
+  options?: Pick<ExportOptions<T>, 'format' | 'header'>
+): Promise<number> {
+  const format = options?.format ?? 'csv';
+  let count = 0;
+
+  if (format === 'csv' && options?.header !== false) {
+    await write(stream, toCsvRow(columns.map((column) => column.header)));
+  }
+  for await (const row of rows) {
+    const line = format === 'csv'
+      ? toCsvRow(columns.map((column) => column.value(row)))
+      : `${JSON.stringify(Object.fromEntries(columns.map((column) => [column.header, toJsonValue(column.value(row))])))}\n`;
+    await write(stream, line);
+    count++;
+  }
+  return count;
+}
+
+export function defaultTradeColumns(timestamps?: TimestampFormat): ExportColumn<NormalizedTrade>[] {
+  return [
+    { header: 'history_id', value: (t) => t.id },
+    ...timestampColumns<NormalizedTrade>((t) => t.timestamp, timestamps),
+    { header: 'symbol', value: (t) => t.symbol },
+    { header: 'side', value: (t) => t.side },
+    { header: 'position_effect', value: (t) => t.positionEffect },
+    { header: 'amount', value: (t) => t.amount },
+    { header: 'price', value: (t) => t.price },
+    { header: 'entry_price', value: (t) => t.entryPrice },
+    { header: 'fee', value: (t) => t.fee },
+    { header: 'pnl', value: (t) => t.pnl },
+    { header: 'event_type', value: (t) => t.eventType },
+    { header: 'cause', value: (t) => t.cause },
+    { header: 'order_id', value: (t) => t.orderId },
+    { header: 'client_order_id', value: (t) => t.clientOrderId },
+  ];
+}
+
+export function defaultFundingColumns(timestamps?: TimestampFormat): ExportColumn<FundingHistoryItem>[] {
+  return [
+    { header: 'history_id', value: (f) => f.history_id },
+    ...timestampColumns<FundingHistoryItem>((f) => f.created_at, timestamps),
+    { header: 'symbol', value: (f) => f.symbol },
+    { header: 'side', value: (f) => f.side },
+    { header: 'amount', value: (f) => f.amount },
+    { header: 'payout', value: (f) => f.payout },
+    { header: 'rate', value: (f) => f.rate },
+  ];
+}
+
+export function defaultEquityColumns(timestamps?: TimestampFormat): ExportColumn<AccountEquityHistoryItem>[] {
+  return [
+    ...timestampColumns<AccountEquityHistoryItem>((e) => e.timestamp, timestamps),
+    { header: 'equity', value: (e) => e.equity },
+    { header: 'balance', value: (e) => e.balance },
+    { header: 'unrealized_pnl', value: (e) => e.unrealized_pnl },
+  ];
+}
+
+export function defaultAccountHistoryColumns(timestamps?: TimestampFormat): ExportColumn<AccountHistoryItem>[] {
+  return [
+    ...timestampColumns<AccountHistoryItem>((a) => a.created_at, timestamps),
+    { header: 'event_type', value: (a) => a.event_type },
+    { header: 'amount', value: (a) => a.amount },
+    { header: 'balance', value: (a) => a.balance },
+    { header: 'pending_balance', value: (a) => a.pending_balance },
+  ];
+}
+
+/**
+ * Export trade history. With afterHistoryId, only trades newer than the last export are written.
+ */
+export async function exportTradeHistory(
+  source: HistoryExportSource,
+  account: string,
+  stream: NodeJS.WritableStream,
+  options?: ExportOptions<NormalizedTrade>
+): Promise<ExportResult> {
+  const result: ExportResult = { rows: 0 };
+  const rows = resumable(
+    source.iterateTradeHistory(account, historyOptions(options)),
+    (trade) => Number(trade.id),
+    (trade) => trade.timestamp,
+    options?.afterHistoryId,
+    result
+  );
+  result.rows = await writeRows(rows, stream, options?.columns ?? defaultTradeColumns(options?.timestamps), options);
+  return result;
+}
+
+/**
+ * Export funding payments. With afterHistoryId, only payments newer than the last export are written.
+ */
+export async function exportFundingHistory(
+  source: HistoryExportSource,
+  account: string,
+  stream: NodeJS.WritableStream,
+  options?: ExportOptions<FundingHistoryItem>
+): Promise<ExportResult> {
+  const result: ExportResult = { rows: 0 };
+  const rows = resumable(
+    source.iterateFundingHistory(account, historyOptions(options)),
+    (payment) => payment.history_id,
+    (payment) => payment.created_at,
+    options?.afterHistoryId,
+    result
+  );
+  result.rows = await writeRows(rows, stream, options?.columns ?? defaultFundingColumns(options?.timestamps), options);
+  return result;
+}
+
+/**
+ * Export balance history (deposits, withdrawals and other balance events).
+ * Items carry no history_id, so afterHistoryId is rejected; resume with startTime set to the previous lastTimestamp + 1.
+ */
+export async function exportAccountHistory(
+  source: HistoryExportSource,
+  account: string,
+  stream: NodeJS.WritableStream,
+  options?: ExportOptions<AccountHistoryItem>
+): Promise<ExportResult> {
+  rejectHistoryId(options, 'Account history');
+  const result: ExportResult = { rows: 0 };
+  const rows = resumable(
+    source.iterateAccountHistory(account, historyOptions(options)),
+    () => undefined,
+    (item) => item.created_at,
+    undefined,
+    result
+  );
+  result.rows = await writeRows(rows, stream, options?.columns ?? defaultAccountHistoryColumns(options?.timestamps), options);
+  return result;
+}
+
+/**
+ * Export account equity history. The range defaults to the last 7 days when startTime is not given.
+ * Like balance history it has no history_id; resume with startTime instead of afterHistoryId.
+ */
+export async function exportEquityHistory(
+  source: HistoryExportSource,
+  account: string,
+  stream: NodeJS.WritableStream,
+  options?: ExportOptions<AccountEquityHistoryItem>
+): Promise<ExportResult> {
+  rejectHistoryId(options, 'Equity history');
+  const response = await source.getAccountEquityHistory(
+    account,
+    options?.startTime,
+    options?.endTime,
+    undefined,
+    options?.callOptions
+  );
+  if (!response.success) {
+    throw new UnsuccessfulResponseError(response.error?.message ?? 'Equity history request failed', response);
+  }
+
+  const result: ExportResult = { rows: 0 };
+  const items = (response.data ?? []).filter((item) =>
+    (options?.startTime === undefined || item.timestamp >= options.startTime)
+    && (options?.endTime === undefined || item.timestamp <= options.endTime));
+  const rows = resumable(items, () => undefined, (item) => item.timestamp, undefined, result);
+  result.rows = await writeRows(rows, stream, options?.columns ?? defaultEquityColumns(options?.timestamps), options);
+  return result;
+}
+
+function rejectHistoryId<T>(options: ExportOptions<T> | undefined, label: string): void {
+  if (options?.afterHistoryId !== undefined) {
+    throw new ValidationError(
+      `${label} has no history_id; resume with startTime set to the previous lastTimestamp + 1`,
+      'afterHistoryId'
+    );
+  }
+}
+
+function historyOptions<T>(options?: ExportOptions<T>): HistoryIteratorOptions<T> {
+  return {
+    symbol: options?.symbol,
+    startTime: options?.startTime,
+    endTime: options?.endTime,
+    callOptions: options?.callOptions,
+  };
+}
+
+/**
+ * Pass rows through, tracking the highest history_id and latest timestamp.
+ * History is returned newest first, so the first row at or below afterHistoryId ends the export.
+ */
+async function* resumable<T>(
+  rows: AsyncIterable<T> | Iterable<T>,
+  historyIdOf: (row: T) => number | undefined,
+  timestampOf: (row: T) => number | undefined,
+  afterHistoryId: number | undefined,
+  result: ExportResult
+): AsyncGenerator<T, void, undefined> {
+  for await (const row of rows) {
+    const historyId = historyIdOf(row);
+    if (afterHistoryId !== undefined && historyId !== undefined && historyId <= afterHistoryId) {
+      return;
+    }
+    if (historyId !== undefined && (result.lastHistoryId === undefined || historyId > result.lastHistoryId)) {
+      result.lastHistoryId = historyId;
+    }
+    const timestamp = timestampOf(row);
+    if (timestamp !== undefined && (result.lastTimestamp === undefined || timestamp > result.lastTimestamp)) {
+      result.lastTimestamp = timestamp;
+    }
+    yield row;
+  }
+}
+
+async function write(stream: NodeJS.WritableStream, chunk: string): Promise<void> {
+  if (!stream.write(chunk)) {
+    await once(stream, 'drain');
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (value instanceof Decimal) {
+    return value.toString();
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function toJsonValue(value: unknown): unknown {
+  if (value instanceof Decimal) {
+    return value.toString();
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return value === undefined ? null : value;
+}
+
+function toIso(time: number | undefined): string | undefined {
+  return time === undefined || !Number.isFinite(time) ? undefined : new Date(time).toISOString();
+}
@@ -0,0 +1,63 @@
+/**
+ * Instrumentation events for SDK health monitoring
+ * BaseClient and WebSocketClient publish structured events here; subscribe
+ * directly or attach a MetricsCollector.
+ */
+
+import { TypedEventEmitter } from './events';
+
+export interface RequestEvent {
+  method: string;
+  endpoint: string;
+  attempt: number;  // 0 for the first attempt
+  status?: number;  // HTTP status, absent when no response was received
+  durationMs: number;
+  error?: string;  // Error class name when the attempt failed
+}
+
+export interface RetryEvent {
+  method: string;
+  endpoint: string;
+  attempt: number;  // Attempt about to be made
+  delayMs: number;
+  error: string;  // Error class name that caused the retry
+}
+
+export interface RateLimitedEvent {
+  method: string;
+  endpoint: string;
+  retryAfterMs?: number;
+}
+
+export interface TimeoutEvent {
+  method: string;
+  endpoint: string;
+  timeoutMs: number;
+}
+
+export interface WebSocketConnectionEvent {
+  state: 'open' | 'closed' | 'reconnecting';
+  attempt?: number;  // Reconnect attempt, when reconnecting
+}
+
+export interface WebSocketMessageEvent {
+  type: string;  // Message type or channel
+}
+
+export interface InstrumentationEvents {
+  request: RequestEvent;
+  retry: RetryEvent;
+  rate_limited: RateLimitedEvent;
+  timeout: TimeoutEvent;
+  ws_connection: WebSocketConnectionEvent;
+  ws_message: WebSocketMessageEvent;
+}
+
+export class Instrumentation extends TypedEventEmitter<InstrumentationEvents> {
+  /**
+   * Publish an event to all subscribers
+   */
+  record<K extends keyof InstrumentationEvents>(event: K, data: InstrumentationEvents[K]): void {
+    this.emit(event, data);
+  }
+}
@@ -1,9 +1,30 @@
 /**
- * Simple logger for Pacifica SDK
+ * Structured logger for Pacifica SDK
+ * Each client can be given its own Logger; child loggers add context such as
+ * account, operation and client_order_id. Secrets are redacted before any sink sees them.
  */
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
 
+export type LogFormat = 'text' | 'json';
+
+export interface LogRecord {
+  level: Exclude<LogLevel, 'silent'>;
+  message: string;
+  time: number;
+  context: Record<string, any>;
+  args: any[];
+}
+
+export type LogSink = (record: LogRecord) => void;
+
+export interface LoggerOptions {
+  level?: LogLevel;  // Minimum level to emit (default 'warn')
+  format?: LogFormat;  // Format of the default console sink (default 'text')
+  sinks?: LogSink[];  // Replace the console sink
+  context?: Record<string, any>;  // Fields attached to every record
+}
+
 const LOG_LEVELS: Record<LogLevel, number> = {
   silent: 0,
   error: 1,
@@ -12,41 +33,173 @@ const LOG_LEVELS: Record<LogLevel, number> = {
   debug: 4,
 };
 
-class Logger {
-  private level: LogLevel = 'warn';
+const REDACTED = '[REDACTED]';
+
+// Field names whose values are always secret
+const SECRET_KEY_PATTERN = /signature|private_?key|secret|agent_?wallet|api_?key|mnemonic|seed/i;
+
+// Base58 private keys and signatures (64+ chars) and hex keys; public keys are 32-44 chars
+const SECRET_VALUE_PATTERN = /\b(?:[1-9A-HJ-NP-Za-km-z]{64,}|[0-9a-fA-F]{64,})\b/g;
+
+/**
+ * Copy a value with secret fields and key-like strings replaced by '[REDACTED]'
+ */
+export function redact(value: any, seen: WeakSet<object> = new WeakSet()): any {
+  if (typeof value === 'string') {
+    return value.replace(SECRET_VALUE_PATTERN, REDACTED);
+  }
+  if (value instanceof Uint8Array) {
+    return REDACTED;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    const { toJSON } = value as { toJSON?: unknown };
+    const serialized = typeof toJSON === 'function'
+      ? toJSON.call(value)
+      : { name: value.name, message: value.message };
+    return redact(serialized, seen);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, seen));
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, field] of Object.entries(value)) {
+    result[key] = SECRET_KEY_PATTERN.test(key) ? REDACTED : redact(field, seen);
+  }
+  return result;
+}
+
+function formatText(record: LogRecord): string {
+  const context = Object.entries(record.context)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(' ');
+  return `[Pacifica SDK] ${record.message}${context ? ` ${context}` : ''}`;
+}
+
+/**
+ * Serialize a record as a single JSON line
+ */
+export function formatJson(record: LogRecord): string {
+  return JSON.stringify({
+    time: new Date(record.time).toISOString(),
+    level: record.level,
+    msg: record.message,
+    ...record.context,
+    ...(record.args.length > 0 && { args: record.args }),
+  });
+}
+
+/**
+ * Write records to the console, as prefixed text or JSON lines
+ */
+export function consoleSink(format: LogFormat = 'text'): LogSink {
+  return (record) => {
+    if (format === 'json') {
+      console[record.level](formatJson(record));
+    } else {
+      console[record.level](formatText(record), ...record.args);
+    }
+  };
+}
+
+/**
+ * Write JSON lines to a stream such as process.stdout or a file
+ */
+export function streamSink(stream: { write(chunk: string): unknown }): LogSink {
+  return (record) => {
+    stream.write(`${formatJson(record)}\n`);
+  };
+}
+
+interface LoggerState {
+  level: LogLevel;
+  sinks: LogSink[];
+}
+
+export class Logger {
+  private state: LoggerState;
+  private readonly context: Record<string, any>;
+
+  constructor(options?: LoggerOptions) {
+    this.state = {
+      level: options?.level ?? 'warn',
+      sinks: options?.sinks ?? [consoleSink(options?.format)],
+    };
+    this.context = redact(options?.context ?? {});
+  }
 
+  /**
+   * Set the level of this logger and every child created from it
+   */
   setLevel(level: LogLevel): void {
-    this.level = level;
+    this.state.level = level;
   }
 
-  private shouldLog(level: LogLevel): boolean {
-    return LOG_LEVELS[level] <= LOG_LEVELS[this.level];
+  getLevel(): LogLevel {
+    return this.state.level;
+  }
+
+  /**
+   * Create a logger that adds `context` to every record.
+   * Children share their parent's level and sinks.
+   */
+  child(context: Record<string, any>): Logger {
+    const child = new Logger({ sinks: [], context: { ...this.context, ...stripUndefined(context) } });
+    child.state = this.state;
+    return child;
   }
 
   debug(message: string, ...args: any[]): void {
-    if (this.shouldLog('debug')) {
-      console.debug(`[Pacifica SDK] ${message}`, ...args);
-    }
+    this.log('debug', message, args);
   }
 
   info(message: string, ...args: any[]): void {
-    if (this.shouldLog('info')) {
-      console.info(`[Pacifica SDK] ${message}`, ...args);
-    }
+    this.log('info', message, args);
   }
 
   warn(message: string, ...args: any[]): void {
-    if (this.shouldLog('warn')) {
-      console.warn(`[Pacifica SDK] ${message}`, ...args);
-    }
+    this.log('warn', message, args);
   }
 
   error(message: string, ...args: any[]): void {
-    if (this.shouldLog('error')) {
-      console.error(`[Pacifica SDK] ${message}`, ...args);
+    this.log('error', message, args);
+  }
+
+  private log(level: LogRecord['level'], message: string, args: any[]): void {
+    if (LOG_LEVELS[level] > LOG_LEVELS[this.state.level]) {
+      return;
     }
+
+    const record: LogRecord = {
+      level,
+      message: redact(message),
+      time: Date.now(),
+      context: this.context,
+      args: args.map((arg) => redact(arg)),
+    };
+    this.state.sinks.forEach((sink) => {
+      try {
+        sink(record);
+      } catch {
+        // A failing sink must never break the caller
+      }
+    });
   }
 }
 
-export const logger = new Logger();
+function stripUndefined(context: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(context).filter(([, value]) => value !== undefined));
+}
 
+/**
+ * Default process-wide logger, used when a client is not given its own
+ */
+export const logger = new Logger();
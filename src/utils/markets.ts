@@ -0,0 +1,148 @@
+/**
+ * Market metadata registry
+ * Loads trading rules (tick size, lot size, minimum order size, max leverage, status)
+ * from the API and keeps them fresh for validation and pre-flight checks.
+ */
+
+import { ApiResponse, CallOptions, MarketSpec } from '../types';
+import { UnsuccessfulResponseError } from '../errors';
+import { TypedEventEmitter } from './events';
+import { logger, Logger } from './logger';
+
+/**
+ * Anything that can fetch market specs, such as an ApiClient
+ */
+export interface MarketSpecSource {
+  getMarketSpecs(options?: CallOptions): Promise<ApiResponse<MarketSpec[]>>;
+}
+
+/**
+ * Read-only view of market specs used by the validation helpers
+ */
+export interface MarketSpecLookup {
+  get(symbol: string): MarketSpec | undefined;
+}
+
+export interface MarketRegistryOptions {
+  refreshIntervalMs?: number;  // Age after which specs are reloaded (default 300000)
+  logger?: Logger;  // Logger for refresh failures (defaults to the SDK logger)
+}
+
+export interface MarketRefreshEvent {
+  markets: number;  // Number of markets loaded
+  loadedAt: number;
+}
+
+export interface MarketRegistryEvents {
+  refresh: MarketRefreshEvent;
+  error: Error;
+}
+
+export class MarketRegistry extends TypedEventEmitter<MarketRegistryEvents> implements MarketSpecLookup {
+  private readonly refreshIntervalMs: number;
+  private readonly logger: Logger;
+  private specs: Map<string, MarketSpec> = new Map();
+  private loadedAt?: number;
+  private loading?: Promise<void>;
+  private timer?: NodeJS.Timeout;
+
+  constructor(private readonly source: MarketSpecSource, options?: MarketRegistryOptions) {
+    super();
+    this.refreshIntervalMs = options?.refreshIntervalMs ?? 300000;
+    this.logger = options?.logger ?? logger;
+  }
+
+  /**
+   * Fetch specs for every market, replacing the current set.
+   * Concurrent calls share one request.
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.fetchSpecs().finally(() => {
+        this.loading = undefined;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Load specs if none are loaded yet. Stale specs are returned immediately
+   * and refreshed in the background.
+   */
+  async ensureLoaded(): Promise<void> {
+    if (this.loadedAt === undefined) {
+      await this.load();
+    } else if (this.isStale()) {
+      this.load().catch(() => undefined);  // Reported through the error event and logger
+    }
+  }
+
+  /**
+   * Reload specs every refresh interval until stop() is called
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.load().catch(() => undefined);
+    }, this.refreshIntervalMs);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  get(symbol: string): MarketSpec | undefined {
+    return this.specs.get(symbol);
+  }
+
+  has(symbol: string): boolean {
+    return this.specs.has(symbol);
+  }
+
+  symbols(): string[] {
+    return Array.from(this.specs.keys());
+  }
+
+  /**
+   * Whether a market is open for trading. Unknown markets are not.
+   */
+  isTradable(symbol: string): boolean {
+    const spec = this.get(symbol);
+    return spec !== undefined && (spec.status === undefined || spec.status === 'active');
+  }
+
+  /**
+   * Time the current specs were loaded, or undefined before the first load
+   */
+  getLoadedAt(): number | undefined {
+    return this.loadedAt;
+  }
+
+  isStale(): boolean {
+    return this.loadedAt === undefined || Date.now() - this.loadedAt >= this.refreshIntervalMs;
+  }
+
+  private async fetchSpecs(): Promise<void> {
+    try {
+      const response = await this.source.getMarketSpecs();
+      if (!response.success || !Array.isArray(response.data)) {
+        throw new UnsuccessfulResponseError(response.error?.message ?? 'Failed to load market specs', response);
+      }
+
+      this.specs = new Map(response.data.map((spec) => [spec.symbol, spec]));
+      this.loadedAt = Date.now();
+      this.emit('refresh', { markets: this.specs.size, loadedAt: this.loadedAt });
+    } catch (error: any) {
+      // Keep serving the previous specs; callers decide whether stale data is acceptable
+      this.logger.warn(`Market spec refresh failed: ${error?.message ?? error}`);
+      this.emit('error', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Metrics collector rendering SDK instrumentation in Prometheus text format
+ */
+
+import { EventHandler } from './events';
+import {
+  Instrumentation,
+  InstrumentationEvents,
+  RateLimitedEvent,
+  RequestEvent,
+  RetryEvent,
+  TimeoutEvent,
+  WebSocketConnectionEvent,
+  WebSocketMessageEvent,
+} from './instrumentation';
+
+export interface MetricsCollectorOptions {
+  prefix?: string;  // Metric name prefix (default 'pacifica')
+  latencyBuckets?: number[];  // Histogram upper bounds in seconds
+}
+
+type Labels = Record<string, string>;
+
+interface Histogram {
+  labels: Labels;
+  buckets: number[];  // Cumulative counts per bound
+  sum: number;
+  count: number;
+}
+
+const DEFAULT_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Collapse query strings and ids so endpoint labels stay low-cardinality,
+ * e.g. '/orders/12345?x=1' -> '/orders/:id'
+ */
+export function endpointLabel(endpoint: string): string {
+  return endpoint
+    .split('?')[0]
+    .split('/')
+    .map((segment) => (/^\d+$/.test(segment) || /^[0-9a-fA-F-]{32,}$/.test(segment) ? ':id' : segment))
+    .join('/');
+}
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels).sort().map((key) => `${key}=${labels[key]}`).join(',');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.keys(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const body = entries
+    .map((key) => `${key}="${labels[key].replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+    .join(',');
+  return `{${body}}`;
+}
+
+export class MetricsCollector {
+  private readonly prefix: string;
+  private readonly latencyBuckets: number[];
+  private counters: Map<string, Map<string, { labels: Labels; value: number }>> = new Map();
+  private histograms: Map<string, Histogram> = new Map();
+  private wsConnected = 0;
+  private subscriptions: Array<() => void> = [];
+
+  constructor(instrumentation?: Instrumentation, options?: MetricsCollectorOptions) {
+    this.prefix = options?.prefix ?? 'pacifica';
+    this.latencyBuckets = [...(options?.latencyBuckets ?? DEFAULT_LATENCY_BUCKETS)].sort((a, b) => a - b);
+    if (instrumentation) {
+      this.attach(instrumentation);
+    }
+  }
+
+  /**
+   * Start collecting events from an instrumentation source
+   */
+  attach(instrumentation: Instrumentation): void {
+    this.subscribe(instrumentation, 'request', (event) => this.onRequest(event));
+    this.subscribe(instrumentation, 'retry', (event) => this.onRetry(event));
+    this.subscribe(instrumentation, 'rate_limited', (event) => this.onRateLimited(event));
+    this.subscribe(instrumentation, 'timeout', (event) => this.onTimeout(event));
+    this.subscribe(instrumentation, 'ws_connection', (event) => this.onConnection(event));
+    this.subscribe(instrumentation, 'ws_message', (event) => this.onMessage(event));
+  }
+
+  /**
+   * Stop collecting from every attached source
+   */
+  detach(): void {
+    this.subscriptions.forEach((unsubscribe) => unsubscribe());
+    this.subscriptions = [];
+  }
+
+  /**
+   * Forget all recorded values
+   */
+  reset(): void {
+    this.counters.clear();
+    this.histograms.clear();
+    this.wsConnected = 0;
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format
+   */
+  render(): string {
+    const lines: string[] = [];
+    const p = this.prefix;
+
+    this.renderCounter(lines, `${p}_http_requests_total`, 'REST request attempts by status');
+    this.renderHistogram(lines, `${p}_http_request_duration_seconds`, 'REST request attempt latency');
+    this.renderCounter(lines, `${p}_http_retries_total`, 'REST request retries');
+    this.renderCounter(lines, `${p}_http_rate_limited_total`, 'REST responses with HTTP 429');
+    this.renderCounter(lines, `${p}_http_timeouts_total`, 'REST request attempts that timed out');
+
+    lines.push(`# HELP ${p}_ws_connected Whether the WebSocket is connected`);
+    lines.push(`# TYPE ${p}_ws_connected gauge`);
+    lines.push(`${p}_ws_connected ${this.wsConnected}`);
+    this.renderCounter(lines, `${p}_ws_reconnects_total`, 'WebSocket reconnect attempts');
+    this.renderCounter(lines, `${p}_ws_messages_total`, 'WebSocket messages received by type');
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  private subscribe<K extends keyof InstrumentationEvents>(
+    instrumentation: Instrumentation,
+    event: K,
+    handler: EventHandler<InstrumentationEvents[K]>
+  ): void {
+    instrumentation.on(event, handler);
+    this.subscriptions.push(() => instrumentation.off(event, handler));
+  }
+
+  private onRequest(event: RequestEvent): void {
+    const endpoint = endpointLabel(event.endpoint);
+    const status = event.status !== undefined ? String(event.status) : 'none';
+    this.increment(`${this.prefix}_http_requests_total`, { method: event.method, endpoint, status });
+    this.observe(`${this.prefix}_http_request_duration_seconds`, { method: event.method, endpoint }, event.durationMs / 1000);
+  }
+
+  private onRetry(event: RetryEvent): void {
+    this.increment(`${this.prefix}_http_retries_total`, {
+      method: event.method,
+      endpoint: endpointLabel(event.endpoint),
+      reason: event.error,
+    });
+  }
+
+  private onRateLimited(event: RateLimitedEvent): void {
+    this.increment(`${this.prefix}_http_rate_limited_total`, { endpoint: endpointLabel(event.endpoint) });
+  }
+
+  private onTimeout(event: TimeoutEvent): void {
+    this.increment(`${this.prefix}_http_timeouts_total`, { endpoint: endpointLabel(event.endpoint) });
+  }
+
+  private onConnection(event: WebSocketConnectionEvent): void {
+    if (event.state === 'reconnecting') {
+      this.increment(`${this.prefix}_ws_reconnects_total`, {});
+    } else {
+      this.wsConnected = event.state === 'open' ? 1 : 0;
+    }
+  }
+
+  private onMessage(event: WebSocketMessageEvent): void {
+    this.increment(`${this.prefix}_ws_messages_total`, { type: event.type });
+  }
+
+  private increment(name: string, labels: Labels): void {
+    let series = this.counters.get(name);
+    if (!series) {
+      series = new Map();
+      this.counters.set(name, series);
+    }
+    const key = labelKey(labels);
+    const counter = series.get(key);
+    if (counter) {
+      counter.value++;
+    } else {
+      series.set(key, { labels, value: 1 });
+    }
+  }
+
+  private observe(name: string, labels: Labels, value: number): void {
+    const key = `${name}|${labelKey(labels)}`;
+    let histogram = this.histograms.get(key);
+    if (!histogram) {
+      histogram = { labels, buckets: this.latencyBuckets.map(() => 0), sum: 0, count: 0 };
+      this.histograms.set(key, histogram);
+    }
+    this.latencyBuckets.forEach((bound, index) => {
+      if (value <= bound) {
+        histogram!.buckets[index]++;
+      }
+    });
+    histogram.sum += value;
+    histogram.count++;
+  }
+
+  private renderCounter(lines: string[], name: string, help: string): void {
+    lines.push(`# HELP ${name} ${help}`);
+    lines.push(`# TYPE ${name} counter`);
+    this.counters.get(name)?.forEach(({ labels, value }) => {
+      lines.push(`${name}${formatLabels(labels)} ${value}`);
+    });
+  }
+
+  private renderHistogram(lines: string[], name: string, help: string): void {
+    lines.push(`# HELP ${name} ${help}`);
+    lines.push(`# TYPE ${name} histogram`);
+    this.histograms.forEach((histogram, key) => {
+      if (!key.startsWith(`${name}|`)) {
+        return;
+      }
+      this.latencyBuckets.forEach((bound, index) => {
+        const labels = { ...histogram.labels, le: String(bound) };
+        lines.push(`${name}_bucket${formatLabels(labels)} ${histogram.buckets[index]}`);
+      });
+      lines.push(`${name}_bucket${formatLabels({ ...histogram.labels, le: '+Inf' })} ${histogram.count}`);
+      lines.push(`${name}_sum${formatLabels(histogram.labels)} ${histogram.sum}`);
+      lines.push(`${name}_count${formatLabels(histogram.labels)} ${histogram.count}`);
+    });
+  }
+}
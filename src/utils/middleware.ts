@@ -0,0 +1,286 @@
+/**
+ * Request/response middleware pipeline for Pacifica REST clients
+ */
+
+import { ApiResponse, TransportResponse } from '../types';
+import {
+  NetworkError,
+  TimeoutError,
+  RateLimitError,
+  APIError,
+  RequestAbortedError,
+  SignatureExpiredError,
+} from '../errors';
+import { logger, Logger } from './logger';
+import { RateLimiter } from './rateLimiter';
+import { CircuitBreaker } from './circuitBreaker';
+import { ClockSync } from './clock';
+import { Instrumentation } from './instrumentation';
+
+export interface RequestContext {
+  method: 'GET' | 'POST';
+  endpoint: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: any;
+  attempt: number;  // Zero-based attempt number, updated by the retry middleware
+  timeout: number;  // Per-attempt timeout in milliseconds
+  signal?: AbortSignal;  // Caller's signal; the timeout stage substitutes its own per attempt
+  response?: Pick<TransportResponse, 'status' | 'headers'>;  // Set once a response is received
+  metadata: Record<string, any>;  // Free-form storage shared between middleware
+  logger?: Logger;  // Logger carrying the request's context (client, operation, ...)
+  /**
+   * Rebuilds the request (e.g. re-signs the body) at the start of each attempt,
+   * before user middleware runs. Requests with a prepare hook are also retried on signature expiry.
+   */
+  prepare?: (ctx: RequestContext) => Promise<void>;
+}
+
+export type MiddlewareNext = () => Promise<ApiResponse<any>>;
+
+/**
+ * Middleware receives the request context and a `next` callback that runs
+ * the rest of the pipeline. It may modify the context before calling `next`,
+ * inspect or replace the response afterwards, and catch or rewrite errors.
+ * `next` may be called more than once (e.g. to retry).
+ */
+export type Middleware = (ctx: RequestContext, next: MiddlewareNext) => Promise<ApiResponse<any>>;
+
+/**
+ * Compose middleware into a single handler; the first middleware is outermost
+ */
+export function composeMiddleware(
+  middleware: Middleware[],
+  handler: (ctx: RequestContext) => Promise<ApiResponse<any>>
+): (ctx: RequestContext) => Promise<ApiResponse<any>> {
+  return (ctx) => {
+    const dispatch = (index: number): Promise<ApiResponse<any>> => {
+      if (index >= middleware.length) {
+        return handler(ctx);
+      }
+      return middleware[index](ctx, () => dispatch(index + 1));
+    };
+    return dispatch(0);
+  };
+}
+
+/**
+ * Wait for `ms`, rejecting with RequestAbortedError as soon as the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestAbortedError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestAbortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Check if error is retryable
+ */
+export function isRetryableError(error: any): boolean {
+  // Network and timeout errors are retryable
+  if (error instanceof NetworkError || error instanceof TimeoutError) {
+    return true;
+  }
+  // Rate limit errors are retryable (after waiting)
+  if (error instanceof RateLimitError) {
+    return true;
+  }
+  // 5xx errors are retryable
+  if (error instanceof APIError && error.status >= 500) {
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Check if the API rejected a request because its signature timestamp expired
+ */
+export function isSignatureExpiredError(error: any): boolean {
+  return error instanceof SignatureExpiredError;
+}
+
+export interface RetryOptions {
+  retryAttempts: number;
+  retryDelay: number;
+  onRetry?: (ctx: RequestContext, error: any, delayMs: number) => void;  // Called before each retry delay
+}
+
+/**
+ * Retry failed requests with exponential backoff: delay * 2^(attempt-1)
+ * Rate limited requests wait for the server's Retry-After instead, and
+ * requests with a prepare hook are re-signed immediately on signature expiry.
+ */
+export function retryMiddleware(options: RetryOptions): Middleware {
+  return async (ctx, next) => {
+    for (let attempt = 0; ; attempt++) {
+      ctx.attempt = attempt;
+      try {
+        return await next();
+      } catch (error: any) {
+        // A re-signed request can be resent straight away after a signature expiry
+        const canResign = !!ctx.prepare && isSignatureExpiredError(error);
+        if (
+          attempt >= options.retryAttempts
+          || ctx.signal?.aborted
+          || !(canResign || isRetryableError(error))
+        ) {
+          throw error;
+        }
+
+        let delay: number;
+        if (canResign) {
+          delay = 0;
+        } else if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+          delay = error.retryAfter;
+        } else {
+          delay = options.retryDelay * Math.pow(2, attempt); // Exponential backoff
+        }
+        (ctx.logger ?? logger).debug(
+          `Retrying ${ctx.method} ${ctx.endpoint} (attempt ${attempt + 2}/${options.retryAttempts + 1}) after ${delay}ms`
+        );
+        options.onRetry?.(ctx, error, delay);
+        await sleep(delay, ctx.signal);
+      }
+    }
+  };
+}
+
+/**
+ * Fail fast while the endpoint's circuit is open and record each attempt's outcome
+ */
+export function circuitBreakerMiddleware(breaker: CircuitBreaker): Middleware {
+  return (ctx, next) => breaker.execute(breaker.groupFor(ctx.endpoint), next);
+}
+
+/**
+ * Wait for rate limit budget before each attempt, weighted by endpoint
+ */
+export function rateLimitMiddleware(limiter: RateLimiter): Middleware {
+  return async (ctx, next) => {
+    await limiter.acquire(limiter.weightFor(ctx.endpoint), ctx.signal);
+    return next();
+  };
+}
+
+/**
+ * Record latency, status and failure kind of every attempt.
+ * Sits inside the rate limiter so queueing time is not counted as latency.
+ */
+export function instrumentationMiddleware(instrumentation: Instrumentation): Middleware {
+  return async (ctx, next) => {
+    ctx.response = undefined;
+    const startedAt = Date.now();
+    const finish = (error?: any) => {
+      const response = (ctx as RequestContext).response;
+      instrumentation.record('request', {
+        method: ctx.method,
+        endpoint: ctx.endpoint,
+        attempt: ctx.attempt,
+        status: response?.status,
+        durationMs: Date.now() - startedAt,
+        ...(error && { error: error.name ?? 'Error' }),
+      });
+    };
+
+    try {
+      const result = await next();
+      finish();
+      return result;
+    } catch (error: any) {
+      finish(error);
+      if (error instanceof RateLimitError) {
+        instrumentation.record('rate_limited', {
+          method: ctx.method,
+          endpoint: ctx.endpoint,
+          retryAfterMs: error.retryAfter,
+        });
+      } else if (error instanceof TimeoutError) {
+        instrumentation.record('timeout', {
+          method: ctx.method,
+          endpoint: ctx.endpoint,
+          timeoutMs: ctx.timeout,
+        });
+      }
+      throw error;
+    }
+  };
+}
+
+/**
+ * Run the request's prepare hook (e.g. sign the body) at the start of each attempt,
+ * so middleware registered after it sees and can amend the final body
+ */
+export function prepareMiddleware(): Middleware {
+  return async (ctx, next) => {
+    if (ctx.prepare) {
+      await ctx.prepare(ctx);
+    }
+    return next();
+  };
+}
+
+/**
+ * Feed the Date header of every response, including error responses, into the clock
+ */
+export function clockSyncMiddleware(clock: ClockSync): Middleware {
+  return async (ctx, next) => {
+    // Drop the previous attempt's response so a failed attempt is not sampled twice
+    ctx.response = undefined;
+    const sentAt = Date.now();
+    try {
+      return await next();
+    } finally {
+      const response = (ctx as RequestContext).response;
+      if (response) {
+        clock.addHttpDate(response.headers.get('date'), sentAt, Date.now());
+      }
+    }
+  };
+}
+
+/**
+ * Abort each attempt after `ctx.timeout` milliseconds and surface a TimeoutError.
+ * The caller's signal, if any, is linked so cancelling it aborts the attempt.
+ */
+export function timeoutMiddleware(): Middleware {
+  return async (ctx, next) => {
+    const outerSignal = ctx.signal;
+    if (outerSignal?.aborted) {
+      throw new RequestAbortedError();
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), ctx.timeout);
+    const onAbort = () => controller.abort();
+    outerSignal?.addEventListener('abort', onAbort, { once: true });
+    ctx.signal = controller.signal;
+
+    try {
+      return await next();
+    } catch (error: any) {
+      if (error?.name === 'AbortError' && controller.signal.aborted) {
+        if (outerSignal?.aborted) {
+          throw new RequestAbortedError();
+        }
+        throw new TimeoutError(`Request timeout after ${ctx.timeout}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      outerSignal?.removeEventListener('abort', onAbort);
+      ctx.signal = outerSignal;
+    }
+  };
+}
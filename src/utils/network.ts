@@ -0,0 +1,152 @@
+/**
+ * Network configuration shared by REST and WebSocket connections:
+ * proxies (including HTTPS_PROXY / NO_PROXY), keep-alive agents, TLS options and headers
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import { Duplex } from 'stream';
+import * as tls from 'tls';
+import { NetworkError } from '../errors';
+import { NetworkOptions } from '../types';
+
+type TunnelCallback = (error: Error | null, socket?: net.Socket) => void;
+
+// Callback signature of http.Agent#createConnection
+type ConnectionCallback = (error: Error | null, stream: Duplex) => void;
+
+/**
+ * Resolve the proxy URL for a target, honouring HTTPS_PROXY, HTTP_PROXY and NO_PROXY
+ * when no explicit proxy is configured. Returns undefined for a direct connection.
+ */
+export function resolveProxy(targetUrl: string, options?: NetworkOptions): string | undefined {
+  if (options?.proxy === false) {
+    return undefined;
+  }
+  if (typeof options?.proxy === 'string') {
+    return options.proxy;
+  }
+
+  const env = process.env;
+  const target = new URL(targetUrl);
+  const secure = target.protocol === 'https:' || target.protocol === 'wss:';
+  const proxy = secure
+    ? env.HTTPS_PROXY || env.https_proxy || env.HTTP_PROXY || env.http_proxy
+    : env.HTTP_PROXY || env.http_proxy;
+  if (!proxy) {
+    return undefined;
+  }
+
+  const noProxy = (env.NO_PROXY || env.no_proxy || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  const host = target.hostname.toLowerCase();
+  const bypass = noProxy.some((entry) => {
+    if (entry === '*') return true;
+    const domain = entry.replace(/^\*?\./, '').split(':')[0];
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+  return bypass ? undefined : proxy;
+}
+
+/**
+ * Headers added to every REST request and WebSocket handshake
+ */
+export function networkHeaders(options?: NetworkOptions): Record<string, string> {
+  return {
+    ...options?.headers,
+    ...(options?.userAgent && { 'User-Agent': options.userAgent }),
+  };
+}
+
+/**
+ * Open a CONNECT tunnel through `proxyUrl` to host:port
+ */
+function connectThroughProxy(
+  proxyUrl: string,
+  host: string,
+  port: number,
+  options: NetworkOptions | undefined,
+  callback: TunnelCallback
+): void {
+  const proxy = new URL(proxyUrl);
+  const headers: Record<string, string> = { Host: `${host}:${port}` };
+  if (proxy.username) {
+    const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+    headers['Proxy-Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const request = (proxy.protocol === 'https:' ? https : http).request({
+    host: proxy.hostname,
+    port: proxy.port || (proxy.protocol === 'https:' ? 443 : 80),
+    method: 'CONNECT',
+    path: `${host}:${port}`,
+    headers,
+    ...(proxy.protocol === 'https:' && options?.tls),
+  });
+
+  request.once('connect', (response, socket) => {
+    if (response.statusCode !== 200) {
+      socket.destroy();
+      callback(new NetworkError(`Proxy CONNECT to ${host}:${port} failed with status ${response.statusCode}`));
+      return;
+    }
+    callback(null, socket);
+  });
+  request.once('error', (error) => {
+    callback(new NetworkError(`Proxy connection to ${proxy.host} failed: ${error.message}`, error));
+  });
+  request.end();
+}
+
+/**
+ * Create an HTTP(S) agent for `targetUrl` with keep-alive, TLS options and,
+ * when a proxy applies, connections tunnelled through it
+ */
+export function createAgent(targetUrl: string, options?: NetworkOptions, keepAlive?: boolean): http.Agent {
+  const target = new URL(targetUrl);
+  const secure = target.protocol === 'https:' || target.protocol === 'wss:';
+  const proxyUrl = resolveProxy(targetUrl, options);
+  const agentOptions: https.AgentOptions = {
+    keepAlive: keepAlive ?? options?.keepAlive ?? true,
+    maxSockets: options?.maxSockets,
+    ...(secure && options?.tls),
+  };
+
+  if (!proxyUrl) {
+    return secure ? new https.Agent(agentOptions) : new http.Agent(agentOptions);
+  }
+
+  if (secure) {
+    class TunnelingHttpsAgent extends https.Agent {
+      createConnection(connectOptions: any, callback?: ConnectionCallback): undefined {
+        connectThroughProxy(proxyUrl!, connectOptions.host, connectOptions.port, options, (error, socket) => {
+          if (error || !socket) {
+            callback?.(error ?? new NetworkError('Proxy tunnel closed'), undefined as unknown as Duplex);
+            return;
+          }
+          const secureSocket = tls.connect({
+            ...connectOptions,
+            socket,
+            servername: connectOptions.servername ?? connectOptions.host,
+          });
+          callback?.(null, secureSocket);
+        });
+        return undefined;
+      }
+    }
+    return new TunnelingHttpsAgent(agentOptions);
+  }
+
+  class TunnelingHttpAgent extends http.Agent {
+    createConnection(connectOptions: any, callback?: ConnectionCallback): undefined {
+      connectThroughProxy(proxyUrl!, connectOptions.host, connectOptions.port, options, (error, socket) => {
+        callback?.(error, socket as Duplex);
+      });
+      return undefined;
+    }
+  }
+  return new TunnelingHttpAgent(agentOptions);
+}
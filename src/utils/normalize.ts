@@ -0,0 +1,171 @@
+/**
+ * Normalization of raw API payloads into canonical models
+ * Accepts the field-name variants the API and older types use (market/symbol,
+ * size/amount, buy/bid/long, ...) and keeps the original payload as `raw`.
+ */
+
+import {
+  NormalizedOrder,
+  NormalizedPosition,
+  NormalizedTrade,
+  Order,
+  OrderSide,
+  Position,
+  PositionSide,
+  Trade,
+  TradeHistoryItem,
+} from '../types';
+import { ValidationError } from '../errors';
+import { Decimal, DecimalValue } from './decimal';
+
+const ORDER_SIDES: Record<string, OrderSide> = {
+  bid: 'bid',
+  buy: 'bid',
+  long: 'bid',
+  open_long: 'bid',
+  close_short: 'bid',
+  ask: 'ask',
+  sell: 'ask',
+  short: 'ask',
+  open_short: 'ask',
+  close_long: 'ask',
+};
+
+/**
+ * Map any side spelling (buy/sell, bid/ask, long/short, open_long, ...) to bid or ask
+ */
+export function normalizeOrderSide(side: string): OrderSide {
+  const normalized = ORDER_SIDES[String(side).toLowerCase()];
+  if (!normalized) {
+    throw new ValidationError(`Unknown side: ${side}`, 'side');
+  }
+  return normalized;
+}
+
+/**
+ * Map any side spelling to the position direction it opens: bid/buy is long, ask/sell is short
+ */
+export function normalizePositionSide(side: string): PositionSide {
+  return normalizeOrderSide(side) === 'bid' ? 'long' : 'short';
+}
+
+/**
+ * Parse a timestamp given as epoch milliseconds, epoch seconds, a numeric string or an ISO date
+ */
+export function parseTimestamp(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const numeric = typeof value === 'number' ? value : Number(value);
+  if (Number.isFinite(numeric)) {
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+  const parsed = Date.parse(String(value));
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+export function normalizeOrder(raw: Order): NormalizedOrder {
+  const order = raw as Order & Record<string, any>;
+  const amount = required(order.initial_amount ?? order.amount ?? order.size, 'amount');
+  const filledAmount = optional(order.filled_amount ?? order.filled_size) ?? Decimal.ZERO;
+  const cancelledAmount = optional(order.cancelled_amount) ?? Decimal.ZERO;
+  const remainingAmount = optional(order.remaining_amount ?? order.remaining_size)
+    ?? amount.minus(filledAmount).minus(cancelledAmount);
+
+  return {
+    id: String(firstDefined(order.order_id, order.id, 'id')),
+    clientOrderId: order.client_order_id ?? undefined,
+    symbol: String(firstDefined(order.symbol, order.market, 'symbol')),
+    side: normalizeOrderSide(order.side),
+    orderType: order.order_type ?? undefined,
+    price: optional(order.price),
+    stopPrice: optional(order.stop_price),
+    amount,
+    filledAmount,
+    remainingAmount: remainingAmount.isNegative() ? Decimal.ZERO : remainingAmount,
+    status: order.status ? String(order.status).toLowerCase() : undefined,
+    reduceOnly: Boolean(order.reduce_only),
+    createdAt: parseTimestamp(order.created_at),
+    raw,
+  };
+}
+
+export function normalizePosition(raw: Position): NormalizedPosition {
+  const position = raw as Position & Record<string, any>;
+  const signedAmount = required(position.amount ?? position.size, 'amount');
+  const side: PositionSide = position.side
+    ? normalizePositionSide(position.side)
+    : signedAmount.isNegative() ? 'short' : 'long';
+
+  return {
+    symbol: String(firstDefined(position.symbol, position.market, 'symbol')),
+    side,
+    amount: signedAmount.abs(),
+    entryPrice: required(position.entry_price, 'entry_price'),
+    markPrice: optional(position.mark_price),
+    liquidationPrice: optional(position.liquidation_price),
+    unrealizedPnl: optional(position.unrealized_pnl),
+    margin: optional(position.margin),
+    leverage: position.leverage !== undefined && position.leverage !== null ? Number(position.leverage) : undefined,
+    isolated: position.isolated ?? undefined,
+    raw,
+  };
+}
+
+/**
+ * Normalize a public trade or an account trade history item
+ */
+export function normalizeTrade(raw: Trade | TradeHistoryItem): NormalizedTrade {
+  const trade = raw as Record<string, any>;
+  const side = String(trade.side ?? '').toLowerCase();
+  const timestamp = parseTimestamp(trade.created_at ?? trade.timestamp);
+  if (timestamp === undefined) {
+    throw new ValidationError('Missing or invalid timestamp', 'created_at');
+  }
+
+  return {
+    id: String(firstDefined(trade.history_id, trade.id, 'history_id')),
+    orderId: trade.order_id !== undefined && trade.order_id !== null ? String(trade.order_id) : undefined,
+    clientOrderId: trade.client_order_id ?? undefined,
+    symbol: String(firstDefined(trade.symbol, trade.market, 'symbol')),
+    side: normalizeOrderSide(side),
+    positionEffect: side.startsWith('open_') ? 'open' : side.startsWith('close_') ? 'close' : undefined,
+    amount: required(trade.amount ?? trade.size, 'amount'),
+    price: required(trade.price, 'price'),
+    entryPrice: optional(trade.entry_price),
+    fee: optional(trade.fee),
+    pnl: optional(trade.pnl),
+    eventType: trade.event_type ?? undefined,
+    cause: trade.cause ?? undefined,
+    timestamp,
+    raw,
+  };
+}
+
+function required(value: unknown, field: string): Decimal {
+  const parsed = parseDecimal(value);
+  if (!parsed) {
+    throw new ValidationError(`Missing or invalid ${field}: ${value}`, field);
+  }
+  return parsed;
+}
+
+function optional(value: unknown): Decimal | undefined {
+  return value === '' ? undefined : parseDecimal(value) ?? undefined;
+}
+
+function parseDecimal(value: unknown): Decimal | null {
+  return isDecimalValue(value) ? Decimal.tryFrom(value) : null;
+}
+
+function isDecimalValue(value: unknown): value is DecimalValue {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'bigint' || value instanceof Decimal;
+}
+
+function firstDefined(first: unknown, second: unknown, field: string): unknown {
+  const value = first ?? second;
+  if (value === undefined || value === null) {
+    throw new ValidationError(`Missing ${field}`, field);
+  }
+  return value;
+}
@@ -0,0 +1,83 @@
+/**
+ * Cursor pagination helpers for history endpoints
+ * Follows next_cursor until the server reports no more pages, a page falls entirely
+ * before the start time (history is returned newest first) or a max-items cap is reached.
+ */
+
+import { CallOptions, PaginatedResponse } from '../types';
+import { UnsuccessfulResponseError } from '../errors';
+
+export interface HistoryPage<T> {
+  items: T[];  // Items from this page that fall inside the time bounds
+  cursor?: string;  // Cursor used to fetch this page (undefined for the first page)
+  nextCursor?: string;  // Cursor of the following page; save it to resume later
+  nextSkip?: number;  // Items of the nextCursor page already yielded when maxItems stopped mid-page; save it with nextCursor
+  hasMore: boolean;
+}
+
+export interface HistoryIteratorOptions<T = any> {
+  symbol?: string;  // Only return items for this market
+  startTime?: number;  // Skip items created before this time (ms); stops at the first page entirely before it
+  endTime?: number;  // Skip items created after this time (ms)
+  pageSize?: number;  // Items requested per page
+  maxItems?: number;  // Stop after yielding this many items
+  cursor?: string;  // Resume from a saved cursor
+  skip?: number;  // Items of the cursor's page to skip, from a saved nextSkip; exact for cursor pages, the first page shifts as new items arrive
+  onPage?: (page: HistoryPage<T>) => void;  // Called once a page's items are yielded, e.g. to checkpoint nextCursor
+  callOptions?: CallOptions;  // Per-request timeout and abort signal
+}
+
+/**
+ * Iterate every item of a cursor-paginated endpoint.
+ * Pages are fetched one at a time, so each request passes through the
+ * client's rate limiter in order.
+ */
+export async function* paginate<T>(
+  fetchPage: (cursor: string | undefined) => Promise<PaginatedResponse<T>>,
+  timestampOf: (item: T) => number | undefined,
+  options?: HistoryIteratorOptions<T>
+): AsyncGenerator<T, void, undefined> {
+  let cursor = options?.cursor;
+  let skip = options?.skip ?? 0;
+  let yielded = 0;
+
+  while (options?.maxItems === undefined || yielded < options.maxItems) {
+    const response = await fetchPage(cursor);
+    if (!response.success) {
+      throw new UnsuccessfulResponseError(response.error?.message ?? 'History request failed', response);
+    }
+
+    const page = response.data ?? [];
+    const items = page.filter((item) => {
+      const time = timestampOf(item);
+      if (time === undefined) return true;
+      if (options?.startTime !== undefined && time < options.startTime) return false;
+      if (options?.endTime !== undefined && time > options.endTime) return false;
+      return true;
+    });
+    // Pages are newest first, so every page after one older than startTime is older too
+    const pastStart = page.length > 0 && page.every((item) => {
+      const time = timestampOf(item);
+      return options?.startTime !== undefined && time !== undefined && time < options.startTime;
+    });
+    const nextCursor = response.has_more && !pastStart ? response.next_cursor : undefined;
+
+    for (let i = skip; i < items.length; i++) {
+      if (options?.maxItems !== undefined && yielded >= options.maxItems) {
+        // Stopped mid-page: resuming fetches this page again and skips what was yielded
+        options?.onPage?.({ items: items.slice(skip, i), cursor, nextCursor: cursor, nextSkip: i, hasMore: true });
+        return;
+      }
+      yield items[i];
+      yielded++;
+    }
+    options?.onPage?.({ items: items.slice(skip), cursor, nextCursor, hasMore: nextCursor !== undefined });
+    skip = 0;
+
+    // A cursor that does not advance would loop forever
+    if (nextCursor === undefined || nextCursor === cursor) {
+      return;
+    }
+    cursor = nextCursor;
+  }
+}
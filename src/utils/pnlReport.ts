@@ -0,0 +1,221 @@
+/**
+ * Realized PnL, fee and funding report built from account trade and funding history
+ * All arithmetic is exact; totals are returned as decimal strings ready to render.
+ */
+
+import { CallOptions, FundingHistoryItem, NormalizedTrade } from '../types';
+import { Decimal } from './decimal';
+import { HistoryIteratorOptions } from './pagination';
+
+export type ReportPeriod = 'day' | 'week';
+
+export interface PnLTotals {
+  realizedPnl: string;  // Sum of trade pnl (fees not deducted)
+  fees: string;  // Trading fees paid; rebates reduce it
+  fundingPaid: string;  // Funding paid, as a positive amount
+  fundingReceived: string;
+  netFunding: string;  // fundingReceived - fundingPaid
+  netReturn: string;  // realizedPnl - fees + netFunding
+  trades: number;
+  fundingPayments: number;
+}
+
+export interface PnLPeriodTotals {
+  periodStart: number;  // Start of the UTC day, or of the ISO week (Monday)
+  label: string;  // Period start as YYYY-MM-DD
+  totals: PnLTotals;
+}
+
+export interface PnLReport {
+  account?: string;
+  startTime?: number;
+  endTime?: number;
+  period: ReportPeriod;
+  generatedAt: number;
+  totals: PnLTotals;
+  bySymbol: Record<string, PnLTotals>;
+  byPeriod: PnLPeriodTotals[];  // Sorted by period start
+  byCause: Record<string, PnLTotals>;  // Trade cause; funding payments are grouped as 'funding'
+  byEventType: Record<string, PnLTotals>;  // Trade event_type; funding payments are grouped as 'funding'
+}
+
+export interface PnLReportOptions {
+  startTime?: number;  // Include history from this time (ms)
+  endTime?: number;  // Include history up to this time (ms)
+  symbol?: string;  // Only include this market
+  period?: ReportPeriod;  // Time bucket for byPeriod (default 'day')
+  callOptions?: CallOptions;  // Per-request timeout and abort signal
+}
+
+/**
+ * History source for generatePnLReport, such as an ApiClient
+ */
+export interface PnLReportSource {
+  iterateTradeHistory(account: string, options?: HistoryIteratorOptions<NormalizedTrade>): AsyncIterable<NormalizedTrade>;
+  iterateFundingHistory(account: string, options?: HistoryIteratorOptions<FundingHistoryItem>): AsyncIterable<FundingHistoryItem>;
+}
+
+const DAY_MS = 86_400_000;
+
+class Accumulator {
+  realizedPnl = Decimal.ZERO;
+  fees = Decimal.ZERO;
+  fundingPaid = Decimal.ZERO;
+  fundingReceived = Decimal.ZERO;
+  trades = 0;
+  fundingPayments = 0;
+
+  addTrade(trade: NormalizedTrade): void {
+    this.realizedPnl = this.realizedPnl.plus(trade.pnl ?? Decimal.ZERO);
+    this.fees = this.fees.plus(trade.fee ?? Decimal.ZERO);
+    this.trades++;
+  }
+
+  addFunding(payout: Decimal): void {
+    if (payout.isNegative()) {
+      this.fundingPaid = this.fundingPaid.plus(payout.abs());
+    } else {
+      this.fundingReceived = this.fundingReceived.plus(payout);
+    }
+    this.fundingPayments++;
+  }
+
+  toTotals(): PnLTotals {
+    const netFunding = this.fundingReceived.minus(this.fundingPaid);
+    return {
+      realizedPnl: this.realizedPnl.toString(),
+      fees: this.fees.toString(),
+      fundingPaid: this.fundingPaid.toString(),
+      fundingReceived: this.fundingReceived.toString(),
+      netFunding: netFunding.toString(),
+      netReturn: this.realizedPnl.minus(this.fees).plus(netFunding).toString(),
+      trades: this.trades,
+      fundingPayments: this.fundingPayments,
+    };
+  }
+}
+
+/**
+ * Start of the UTC day or ISO week (Monday) containing `time`
+ */
+export function periodStart(time: number, period: ReportPeriod): number {
+  const dayStart = Math.floor(time / DAY_MS) * DAY_MS;
+  if (period === 'day') {
+    return dayStart;
+  }
+  const daysSinceMonday = (new Date(dayStart).getUTCDay() + 6) % 7;
+  return dayStart - daysSinceMonday * DAY_MS;
+}
+
+/**
+ * Aggregate trades and funding payments that are already loaded
+ */
+export function buildPnLReport(
+  trades: Iterable<NormalizedTrade>,
+  funding: Iterable<FundingHistoryItem>,
+  options?: PnLReportOptions & { account?: string }
+): PnLReport {
+  const period = options?.period ?? 'day';
+  const totals = new Accumulator();
+  const bySymbol = new Map<string, Accumulator>();
+  const byPeriod = new Map<number, Accumulator>();
+  const byCause = new Map<string, Accumulator>();
+  const byEventType = new Map<string, Accumulator>();
+
+  const inRange = (symbol: string, time: number) =>
+    (options?.symbol === undefined || symbol === options.symbol)
+    && (options?.startTime === undefined || time >= options.startTime)
+    && (options?.endTime === undefined || time <= options.endTime);
+
+  for (const trade of trades) {
+    if (!inRange(trade.symbol, trade.timestamp)) continue;
+    for (const bucket of [
+      totals,
+      bucketFor(bySymbol, trade.symbol),
+      bucketFor(byPeriod, periodStart(trade.timestamp, period)),
+      bucketFor(byCause, trade.cause ?? 'unknown'),
+      bucketFor(byEventType, trade.eventType ?? 'unknown'),
+    ]) {
+      bucket.addTrade(trade);
+    }
+  }
+
+  for (const payment of funding) {
+    if (!inRange(payment.symbol, payment.created_at)) continue;
+    const payout = Decimal.from(payment.payout);
+    for (const bucket of [
+      totals,
+      bucketFor(bySymbol, payment.symbol),
+      bucketFor(byPeriod, periodStart(payment.created_at, period)),
+      bucketFor(byCause, 'funding'),
+      bucketFor(byEventType, 'funding'),
+    ]) {
+      bucket.addFunding(payout);
+    }
+  }
+
+  return {
+    account: options?.account,
+    startTime: options?.startTime,
+    endTime: options?.endTime,
+    period,
+    generatedAt: Date.now(),
+    totals: totals.toTotals(),
+    bySymbol: toRecord(bySymbol),
+    byPeriod: Array.from(byPeriod.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([start, bucket]) => ({
+        periodStart: start,
+        label: new Date(start).toISOString().slice(0, 10),
+        totals: bucket.toTotals(),
+      })),
+    byCause: toRecord(byCause),
+    byEventType: toRecord(byEventType),
+  };
+}
+
+/**
+ * Fetch an account's trade and funding history for a time range and aggregate it
+ */
+export async function generatePnLReport(
+  source: PnLReportSource,
+  account: string,
+  options?: PnLReportOptions
+): Promise<PnLReport> {
+  const historyOptions = {
+    symbol: options?.symbol,
+    startTime: options?.startTime,
+    endTime: options?.endTime,
+    callOptions: options?.callOptions,
+  };
+  const [trades, funding] = await Promise.all([
+    collect(source.iterateTradeHistory(account, historyOptions)),
+    collect(source.iterateFundingHistory(account, historyOptions)),
+  ]);
+  return buildPnLReport(trades, funding, { ...options, account });
+}
+
+function bucketFor<K>(buckets: Map<K, Accumulator>, key: K): Accumulator {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = new Accumulator();
+    buckets.set(key, bucket);
+  }
+  return bucket;
+}
+
+function toRecord(buckets: Map<string, Accumulator>): Record<string, PnLTotals> {
+  const record: Record<string, PnLTotals> = {};
+  for (const [key, bucket] of buckets) {
+    record[key] = bucket.toTotals();
+  }
+  return record;
+}
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of items) {
+    result.push(item);
+  }
+  return result;
+}
@@ -1,65 +1,187 @@
 /**
- * Simple rate limiter for API requests
+ * Token bucket rate limiter for API requests
  */
 
+import { RequestAbortedError } from '../errors';
+
+export interface RateLimiterOptions {
+  capacity?: number;  // Maximum burst size in tokens (default 100)
+  refillPerSecond?: number;  // Tokens restored per second (default capacity / 60)
+  weights?: Record<string, number>;  // Token cost per endpoint path prefix or WebSocket operation
+}
+
+/**
+ * Default request weights. History and candle queries are more expensive
+ * than single order operations; batch requests carry several actions.
+ */
+export const DEFAULT_RATE_LIMIT_WEIGHTS: Record<string, number> = {
+  '/orders/batch': 5,
+  '/orders/history': 2,
+  '/orders/twap/history': 2,
+  '/trades/history': 2,
+  '/funding/history': 2,
+  '/funding_rate/history': 2,
+  '/account/balance/history': 2,
+  '/portfolio': 2,
+  '/kline': 2,
+};
+
+interface PendingAcquire {
+  weight: number;
+  resolve: () => void;
+}
+
 export class RateLimiter {
-  private requests: number[] = [];
-  private readonly maxRequests: number;
-  private readonly windowMs: number;
+  private readonly capacity: number;
+  private readonly refillPerSecond: number;
+  private readonly weights: Record<string, number>;
+  private tokens: number;
+  private lastRefill: number;
+  private queue: PendingAcquire[] = [];
+  private drainTimer: NodeJS.Timeout | null = null;
 
-  constructor(maxRequests: number = 100, windowMs: number = 60000) {
-    this.maxRequests = maxRequests;
-    this.windowMs = windowMs;
+  constructor(options?: RateLimiterOptions) {
+    this.capacity = options?.capacity ?? 100;
+    this.refillPerSecond = options?.refillPerSecond ?? this.capacity / 60;
+    this.weights = { ...DEFAULT_RATE_LIMIT_WEIGHTS, ...options?.weights };
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
   }
 
   /**
-   * Check if request is allowed and record it
+   * Wait until `weight` tokens are available and consume them.
+   * Callers are served in FIFO order; an aborted signal removes the caller from the queue.
    */
-  async checkLimit(): Promise<void> {
-    const now = Date.now();
-    const cutoff = now - this.windowMs;
-    
-    // Remove expired requests
-    let writeIndex = 0;
-    for (let i = 0; i < this.requests.length; i++) {
-      if (this.requests[i] >= cutoff) {
-        this.requests[writeIndex++] = this.requests[i];
-      }
+  acquire(weight: number = 1, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new RequestAbortedError());
+    }
+
+    const cost = Math.min(weight, this.capacity);
+    this.refill();
+
+    if (this.queue.length === 0 && this.tokens >= cost) {
+      this.tokens -= cost;
+      return Promise.resolve();
     }
-    this.requests.length = writeIndex;
 
-    if (this.requests.length >= this.maxRequests) {
-      const oldestRequest = this.requests[0];
-      const waitTime = this.windowMs - (now - oldestRequest);
-      throw new Error(`Rate limit exceeded. Wait ${Math.ceil(waitTime / 1000)}s`);
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.queue.indexOf(pending);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+        }
+        reject(new RequestAbortedError());
+      };
+      const pending: PendingAcquire = {
+        weight: cost,
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(pending);
+      this.scheduleDrain();
+    });
+  }
+
+  /**
+   * Consume tokens if immediately available, without waiting
+   */
+  tryAcquire(weight: number = 1): boolean {
+    const cost = Math.min(weight, this.capacity);
+    this.refill();
+    if (this.queue.length === 0 && this.tokens >= cost) {
+      this.tokens -= cost;
+      return true;
     }
+    return false;
+  }
 
-    this.requests.push(now);
+  /**
+   * Wait for a single token. Kept for backwards compatibility; waits instead of throwing.
+   */
+  async checkLimit(): Promise<void> {
+    return this.acquire(1);
   }
 
   /**
-   * Get current request count in window
+   * Resolve the weight of an endpoint path or WebSocket operation.
+   * Exact matches win, then the longest matching path prefix, then 1.
    */
-  getCurrentCount(): number {
-    const now = Date.now();
-    const cutoff = now - this.windowMs;
-    
-    let count = 0;
-    for (let i = this.requests.length - 1; i >= 0; i--) {
-      if (this.requests[i] >= cutoff) {
-        count++;
-      } else {
-        break;
+  weightFor(key: string): number {
+    if (this.weights[key] !== undefined) {
+      return this.weights[key];
+    }
+
+    let matched = '';
+    for (const prefix of Object.keys(this.weights)) {
+      if (prefix.startsWith('/') && key.startsWith(prefix) && prefix.length > matched.length) {
+        matched = prefix;
       }
     }
-    return count;
+    return matched ? this.weights[matched] : 1;
+  }
+
+  /**
+   * Get number of tokens currently available
+   */
+  getAvailableTokens(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  /**
+   * Get number of callers waiting for tokens
+   */
+  getQueueLength(): number {
+    return this.queue.length;
   }
 
   /**
-   * Reset the rate limiter
+   * Reset the rate limiter to a full bucket and release all waiters
    */
   reset(): void {
-    this.requests = [];
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = null;
+    }
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+    const waiting = this.queue;
+    this.queue = [];
+    waiting.forEach((pending) => pending.resolve());
   }
-}
 
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    if (elapsed > 0) {
+      this.tokens = Math.min(this.capacity, this.tokens + (elapsed / 1000) * this.refillPerSecond);
+      this.lastRefill = now;
+    }
+  }
+
+  private drain(): void {
+    this.drainTimer = null;
+    this.refill();
+
+    while (this.queue.length > 0 && this.tokens >= this.queue[0].weight) {
+      const pending = this.queue.shift()!;
+      this.tokens -= pending.weight;
+      pending.resolve();
+    }
+
+    this.scheduleDrain();
+  }
+
+  private scheduleDrain(): void {
+    if (this.drainTimer || this.queue.length === 0) {
+      return;
+    }
+    const missing = this.queue[0].weight - this.tokens;
+    const waitMs = Math.max(0, Math.ceil((missing / this.refillPerSecond) * 1000));
+    this.drainTimer = setTimeout(() => this.drain(), waitMs);
+  }
+}
@@ -0,0 +1,353 @@
+/**
+ * Runtime schemas for the response types in types/index.ts
+ */
+
+import {
+  AccountEquityHistoryItem,
+  AckResult,
+  AgentIPWhitelist,
+  AgentWalletInfo,
+  ApiKeyList,
+  ApiKeyResult,
+  AccountHistoryItem,
+  AccountInfo,
+  Balance,
+  AccountSettings,
+  BatchActionResult,
+  BatchOrderResult,
+  BuilderCodeApproval,
+  CancelResult,
+  CandleData,
+  CreateOrderResult,
+  FundingHistoryItem,
+  HistoricalFunding,
+  MarketInfo,
+  MarketSpec,
+  MarkPriceCandleData,
+  Order,
+  OrderBook,
+  Position,
+  PriceData,
+  SubaccountResult,
+  Ticker,
+  Trade,
+  TradeHistoryItem,
+  TWAPOrder,
+  WithdrawResult,
+} from '../types';
+import {
+  array,
+  boolean,
+  decimalString,
+  guard,
+  literal,
+  nullable,
+  number,
+  object,
+  optional,
+  requireOneOf,
+  string,
+  tuple,
+  union,
+} from './schema';
+
+export const marketInfoSchema = object<MarketInfo>({
+  id: string(),
+  base_currency: string(),
+  quote_currency: string(),
+  min_order_size: decimalString(),
+  tick_size: decimalString(),
+  status: string(),
+});
+
+export const marketSpecSchema = object<MarketSpec>({
+  symbol: string(),
+  tick_size: decimalString(),
+  min_tick: optional(decimalString()),
+  max_tick: optional(decimalString()),
+  lot_size: decimalString(),
+  max_leverage: number(),
+  isolated_only: optional(boolean()),
+  min_order_size: decimalString(),
+  max_order_size: optional(decimalString()),
+  funding_rate: optional(decimalString()),
+  next_funding_rate: optional(decimalString()),
+  status: optional(string()),
+});
+
+export const tickerSchema = object<Ticker>({
+  market: string(),
+  last_price: decimalString(),
+  bid_price: decimalString(),
+  ask_price: decimalString(),
+  volume_24h: decimalString(),
+  change_24h: decimalString(),
+});
+
+export const orderBookSchema = object<OrderBook>({
+  market: string(),
+  bids: array(tuple(decimalString(), decimalString())),
+  asks: array(tuple(decimalString(), decimalString())),
+  timestamp: number(),
+});
+
+export const tradeSchema = object<Trade>({
+  id: string(),
+  market: string(),
+  side: literal('buy', 'sell'),
+  size: decimalString(),
+  price: decimalString(),
+  timestamp: number(),
+});
+
+const rawSideSchema = literal('bid', 'ask', 'buy', 'sell', 'long', 'short');
+
+export const orderSchema = requireOneOf(object<Order>({
+  order_id: optional(union(number(), string())),
+  id: optional(string()),
+  client_order_id: optional(string()),
+  symbol: optional(string()),
+  market: optional(string()),
+  side: rawSideSchema,
+  initial_amount: optional(decimalString()),
+  amount: optional(decimalString()),
+  size: optional(decimalString()),
+  price: optional(decimalString()),
+  stop_price: optional(decimalString()),
+  filled_amount: optional(decimalString()),
+  filled_size: optional(decimalString()),
+  cancelled_amount: optional(decimalString()),
+  remaining_size: optional(decimalString()),
+  order_type: optional(string()),
+  reduce_only: optional(boolean()),
+  status: optional(string()),
+  created_at: optional(union(string(), number())),
+  updated_at: optional(union(string(), number())),
+}), ['order_id', 'id'], ['symbol', 'market'], ['initial_amount', 'amount', 'size']);
+
+export const positionSchema = requireOneOf(object<Position>({
+  symbol: optional(string()),
+  market: optional(string()),
+  side: rawSideSchema,
+  amount: optional(decimalString()),
+  size: optional(decimalString()),
+  entry_price: decimalString(),
+  mark_price: optional(decimalString()),
+  liquidation_price: optional(decimalString()),
+  unrealized_pnl: optional(decimalString()),
+  margin: optional(decimalString()),
+  funding: optional(decimalString()),
+  isolated: optional(boolean()),
+  leverage: optional(number()),
+  created_at: optional(number()),
+  updated_at: optional(number()),
+}), ['symbol', 'market'], ['amount', 'size']);
+
+export const twapOrderSchema = object<TWAPOrder>({
+  id: union(string(), number()),
+  symbol: string(),
+  side: string(),
+  amount: decimalString(),
+  slippage_percent: decimalString(),
+  duration_in_seconds: number(),
+  status: string(),
+  created_at: string(),
+  client_order_id: optional(string()),
+  filled_amount: optional(decimalString()),
+  average_fill_price: optional(decimalString()),
+  updated_at: optional(union(string(), number())),
+});
+
+export const priceDataSchema = object<PriceData>({
+  symbol: string(),
+  mark: decimalString(),
+  mid: decimalString(),
+  oracle: decimalString(),
+  funding: decimalString(),
+  next_funding: decimalString(),
+  open_interest: decimalString(),
+  volume_24h: decimalString(),
+  yesterday_price: decimalString(),
+  timestamp: number(),
+});
+
+export const candleDataSchema = object<CandleData>({
+  t: number(),
+  T: number(),
+  s: string(),
+  i: string(),
+  o: decimalString(),
+  c: decimalString(),
+  h: decimalString(),
+  l: decimalString(),
+  v: decimalString(),
+  n: number(),
+});
+
+export const markPriceCandleDataSchema = object<MarkPriceCandleData>({
+  t: number(),
+  T: number(),
+  s: string(),
+  i: string(),
+  o: decimalString(),
+  c: decimalString(),
+  h: decimalString(),
+  l: decimalString(),
+});
+
+export const historicalFundingSchema = object<HistoricalFunding>({
+  symbol: string(),
+  rate: decimalString(),
+  timestamp: number(),
+  next_funding_time: optional(number()),
+});
+
+export const tradeHistoryItemSchema = object<TradeHistoryItem>({
+  history_id: number(),
+  order_id: number(),
+  client_order_id: optional(string()),
+  symbol: string(),
+  amount: decimalString(),
+  price: decimalString(),
+  entry_price: decimalString(),
+  fee: decimalString(),
+  pnl: decimalString(),
+  event_type: string(),
+  side: string(),
+  created_at: number(),
+  cause: string(),
+});
+
+export const fundingHistoryItemSchema = object<FundingHistoryItem>({
+  history_id: number(),
+  symbol: string(),
+  side: string(),
+  amount: decimalString(),
+  payout: decimalString(),
+  rate: decimalString(),
+  created_at: number(),
+});
+
+export const accountEquityHistoryItemSchema = object<AccountEquityHistoryItem>({
+  timestamp: number(),
+  equity: decimalString(),
+  balance: decimalString(),
+  unrealized_pnl: decimalString(),
+});
+
+export const accountInfoSchema = object<AccountInfo>({
+  balance: decimalString(),
+  fee_level: number(),
+  account_equity: decimalString(),
+  available_to_spend: decimalString(),
+  available_to_withdraw: optional(decimalString()),
+  pending_balance: decimalString(),
+  total_margin_used: decimalString(),
+  cross_mmr: decimalString(),
+  positions_count: optional(number()),
+  orders_count: optional(number()),
+  stop_orders_count: optional(number()),
+  updated_at: optional(number()),
+});
+
+export const balanceSchema = object<Balance>({
+  currency: string(),
+  balance: decimalString(),
+  available_to_withdraw: optional(decimalString()),
+  pending_balance: optional(decimalString()),
+});
+
+export const accountHistoryItemSchema = object<AccountHistoryItem>({
+  amount: decimalString(),
+  balance: decimalString(),
+  pending_balance: optional(decimalString()),
+  event_type: string(),
+  created_at: number(),
+});
+
+export const isAccountInfo = guard(accountInfoSchema);
+export const isBalance = guard(balanceSchema);
+export const isAccountHistoryItem = guard(accountHistoryItemSchema);
+
+export const accountSettingsSchema = object<AccountSettings>({
+  symbol: string(),
+  isolated: boolean(),
+  leverage: number(),
+  created_at: number(),
+  updated_at: number(),
+});
+
+export const builderCodeApprovalSchema = object<BuilderCodeApproval>({
+  builder_code: string(),
+  description: optional(string()),
+  max_fee_rate: decimalString(),
+  updated_at: number(),
+});
+
+export const createOrderResultSchema = object<CreateOrderResult>({
+  order_id: number(),
+  client_order_id: optional(string()),
+});
+
+export const cancelResultSchema = object<CancelResult>({
+  order_id: optional(number()),
+  client_order_id: optional(string()),
+  cancelled_count: optional(number()),
+});
+
+export const batchActionResultSchema = object<BatchActionResult>({
+  success: boolean(),
+  order_id: optional(number()),
+  error: optional(string()),
+});
+
+export const batchOrderResultSchema = object<BatchOrderResult>({
+  results: array(batchActionResultSchema),
+});
+
+export const withdrawResultSchema = object<WithdrawResult>({
+  amount: optional(decimalString()),
+  currency: optional(string()),
+  address: optional(string()),
+  status: optional(string()),
+});
+
+export const subaccountResultSchema = object<SubaccountResult>({
+  subaccount_id: optional(string()),
+  main_account: optional(string()),
+  subaccount: optional(string()),
+  amount: optional(decimalString()),
+});
+
+export const ackResultSchema = nullable(object<Exclude<AckResult, null>>({}));
+
+export const apiKeyResultSchema = object<ApiKeyResult>({
+  api_key: string(),
+});
+
+export const apiKeyListSchema = object<ApiKeyList>({
+  active_api_keys: array(string()),
+  api_key_limit: optional(number()),
+});
+
+export const agentWalletInfoSchema = object<AgentWalletInfo>({
+  agent_wallet: string(),
+  created_at: optional(number()),
+});
+
+export const agentIPWhitelistSchema = object<AgentIPWhitelist>({
+  ip_addresses: array(string()),
+  enabled: optional(boolean()),
+});
+
+export const isCreateOrderResult = guard(createOrderResultSchema);
+export const isCancelResult = guard(cancelResultSchema);
+export const isBatchOrderResult = guard(batchOrderResultSchema);
+export const isWithdrawResult = guard(withdrawResultSchema);
+export const isSubaccountResult = guard(subaccountResultSchema);
+export const isAckResult = guard(ackResultSchema);
+export const isApiKeyResult = guard(apiKeyResultSchema);
+export const isApiKeyList = guard(apiKeyListSchema);
+export const isAgentWalletInfo = guard(agentWalletInfoSchema);
+export const isAgentIPWhitelist = guard(agentIPWhitelistSchema);
+export const isBuilderCodeApproval = guard(builderCodeApprovalSchema);
@@ -0,0 +1,200 @@
+/**
+ * Minimal runtime schema combinators for validating API responses
+ */
+
+export interface SchemaIssue {
+  path: string;  // e.g. 'data[0].mark'
+  message: string;
+}
+
+export interface Schema<T> {
+  readonly expected: string;  // Human-readable description used in issue messages
+  check(value: unknown, path: string, issues: SchemaIssue[]): void;
+  readonly _type?: T;  // Type marker only, never set
+}
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+const DECIMAL_PATTERN = /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') {
+    return `string "${value.length > 20 ? `${value.slice(0, 20)}...` : value}"`;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return `${typeof value} ${value}`;
+  }
+  return typeof value;
+}
+
+function primitive<T>(expected: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    expected,
+    check(value, path, issues) {
+      if (!test(value)) {
+        issues.push({ path, message: `expected ${expected}, got ${describe(value)}` });
+      }
+    },
+  };
+}
+
+export function string(): Schema<string> {
+  return primitive('string', (value) => typeof value === 'string');
+}
+
+export function number(): Schema<number> {
+  return primitive('number', (value) => typeof value === 'number' && Number.isFinite(value));
+}
+
+export function boolean(): Schema<boolean> {
+  return primitive('boolean', (value) => typeof value === 'boolean');
+}
+
+/**
+ * A string holding a finite decimal number, as Pacifica sends prices and sizes
+ */
+export function decimalString(): Schema<string> {
+  return primitive('decimal string', (value) => typeof value === 'string' && DECIMAL_PATTERN.test(value));
+}
+
+export function literal<T extends string | number | boolean>(...values: T[]): Schema<T> {
+  return primitive(values.map((value) => JSON.stringify(value)).join(' | '), (value) => values.includes(value as T));
+}
+
+/**
+ * Accepts a missing or null value, otherwise defers to `schema`
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    expected: `${schema.expected} (optional)`,
+    check(value, path, issues) {
+      if (value !== undefined && value !== null) {
+        schema.check(value, path, issues);
+      }
+    },
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    expected: `${schema.expected} | null`,
+    check(value, path, issues) {
+      if (value !== null) {
+        schema.check(value, path, issues);
+      }
+    },
+  };
+}
+
+export function union<A, B>(a: Schema<A>, b: Schema<B>): Schema<A | B> {
+  const expected = `${a.expected} | ${b.expected}`;
+  return {
+    expected,
+    check(value, path, issues) {
+      const aIssues: SchemaIssue[] = [];
+      a.check(value, path, aIssues);
+      if (aIssues.length === 0) return;
+      const bIssues: SchemaIssue[] = [];
+      b.check(value, path, bIssues);
+      if (bIssues.length === 0) return;
+      issues.push({ path, message: `expected ${expected}, got ${describe(value)}` });
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    expected: `array of ${item.expected}`,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected array, got ${describe(value)}` });
+        return;
+      }
+      value.forEach((element, index) => item.check(element, `${path}[${index}]`, issues));
+    },
+  };
+}
+
+export function tuple<A, B>(first: Schema<A>, second: Schema<B>): Schema<[A, B]> {
+  return {
+    expected: `[${first.expected}, ${second.expected}]`,
+    check(value, path, issues) {
+      if (!Array.isArray(value) || value.length !== 2) {
+        issues.push({ path, message: `expected pair, got ${describe(value)}` });
+        return;
+      }
+      first.check(value[0], `${path}[0]`, issues);
+      second.check(value[1], `${path}[1]`, issues);
+    },
+  };
+}
+
+/**
+ * An object with at least the fields in `shape`. Unknown fields are allowed
+ * so additive API changes do not fail validation.
+ */
+export function object<T>(shape: Shape<T>): Schema<T> {
+  return {
+    expected: 'object',
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `expected object, got ${describe(value)}` });
+        return;
+      }
+      for (const key of Object.keys(shape) as (keyof T & string)[]) {
+        shape[key].check((value as Record<string, unknown>)[key], `${path}.${key}`, issues);
+      }
+    },
+  };
+}
+
+/**
+ * Require at least one field from each group, for payloads that name the same value
+ * differently across endpoints (e.g. symbol or market)
+ */
+export function requireOneOf<T>(schema: Schema<T>, ...groups: (keyof T & string)[][]): Schema<T> {
+  return {
+    expected: schema.expected,
+    check(value, path, issues) {
+      schema.check(value, path, issues);
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return;
+      }
+      for (const group of groups) {
+        if (group.every((key) => (value as Record<string, unknown>)[key] === undefined || (value as Record<string, unknown>)[key] === null)) {
+          issues.push({ path, message: `expected one of ${group.join(', ')}` });
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Check `value` against `schema` and return every issue found
+ */
+export function validateSchema<T>(value: unknown, schema: Schema<T>, path: string = 'value'): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  schema.check(value, path, issues);
+  return issues;
+}
+
+/**
+ * Build a type guard from a schema
+ */
+export function guard<T>(schema: Schema<T>): (value: unknown) => value is T {
+  return (value: unknown): value is T => validateSchema(value, schema).length === 0;
+}
+
+/**
+ * Summarize a response's validation issues for an error or log message
+ */
+export function describeIssues(issues: SchemaIssue[], label: string): string {
+  const summary = issues
+    .slice(0, 5)
+    .map((issue) => `${issue.path} ${issue.message}`)
+    .join('; ');
+  const more = issues.length > 5 ? ` (and ${issues.length - 5} more)` : '';
+  return `Invalid ${label} response: ${summary}${more}`;
+}
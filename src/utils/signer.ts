@@ -199,10 +199,12 @@ export async function signMessage(
 
 /**
  * Create signature header with timestamp
+ * @param expiryWindow - Signature validity in milliseconds (optional)
+ * @param timestamp - Timestamp to sign, e.g. from ClockSync.now() (defaults to local time)
  */
-export function createSignatureHeader(expiryWindow?: number): SignatureHeader {
+export function createSignatureHeader(expiryWindow?: number, timestamp?: number): SignatureHeader {
   const header: SignatureHeader = {
-    timestamp: Math.floor(Date.now()),
+    timestamp: Math.floor(timestamp ?? Date.now()),
   };
 
   if (expiryWindow !== undefined) {
@@ -220,7 +222,8 @@ export async function buildSignedRequest(
   data: Record<string, any>,
   privateKey: string | Uint8Array,
   accountPublicKey?: string,
-  expiryWindow?: number
+  expiryWindow?: number,
+  timestamp?: number
 ): Promise<SignedRequest> {
   // Generate keypair if account public key not provided
   let publicKeyHex: string;
@@ -256,7 +259,7 @@ export async function buildSignedRequest(
   }
 
   // Create signature header
-  const header = createSignatureHeader(expiryWindow);
+  const header = createSignatureHeader(expiryWindow, timestamp);
 
   // Sign message structure: { type, timestamp, expiry_window, data: { ...payload } }
   // The payload is nested under "data" for signing
@@ -355,10 +358,11 @@ export async function buildSignedRequestWithHardwareWallet(
   data: Record<string, any>,
   accountPublicKey: string,
   hardwareWalletPath: string,
-  expiryWindow?: number
+  expiryWindow?: number,
+  timestamp?: number
 ): Promise<SignedRequest & { signature: { type: 'hardware'; value: string } }> {
   // Create signature header
-  const header = createSignatureHeader(expiryWindow);
+  const header = createSignatureHeader(expiryWindow, timestamp);
 
   // Sign message structure: { type, timestamp, expiry_window, data: { ...payload } }
   const messagePayload = {
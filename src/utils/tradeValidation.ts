@@ -3,8 +3,12 @@
  * Provides validation functions and helpers for trading operations
  */
 
+import { Decimal, DecimalValue } from './decimal';
+import { ValidationError } from '../errors';
+import type { MarketSpecLookup } from './markets';
+
 /**
- * Common tick sizes for major markets
+ * Fallback tick sizes for major markets, used when no MarketRegistry is given
  */
 export const TICK_SIZES: Record<string, number> = {
   BTC: 1,     // $1 tick size
@@ -23,20 +27,49 @@ export const MIN_ORDER_VALUE = 10; // $10 minimum
  */
 export const MAX_PRICE_DEVIATION = 0.20; // 20%
 
+/**
+ * Get the tick size for a symbol as an exact decimal
+ * @param symbol - The trading symbol (e.g., 'BTC', 'ETH')
+ * @param markets - Market specs loaded from the API (optional); without it only the TICK_SIZES markets are known
+ * @throws ValidationError for symbols whose tick size is unknown
+ */
+export function getTickSize(symbol: string, markets?: MarketSpecLookup): Decimal {
+  if (markets) {
+    const spec = markets.get(symbol);
+    if (!spec) {
+      throw new ValidationError(`Unknown market: ${symbol}`, 'symbol');
+    }
+    return Decimal.from(spec.tick_size);
+  }
+  const tickSize = TICK_SIZES[symbol];
+  if (tickSize === undefined) {
+    throw new ValidationError(`No tick size known for ${symbol}; pass a MarketRegistry to look it up`, 'symbol');
+  }
+  return Decimal.from(tickSize);
+}
+
+/**
+ * Format a value with the number of decimals implied by a step size
+ * @param value - The value to format
+ * @param step - Tick or lot size, e.g. '0.01'
+ * @returns Value rounded to the step's precision as a string
+ */
+export function formatToStep(value: DecimalValue, step: DecimalValue): string {
+  const stepSize = Decimal.from(step);
+  return Decimal.from(value).toFixed(stepSize.decimalPlaces());
+}
+
 /**
  * Round a price to the nearest valid tick size
- * @param price - The price to round
+ * @param price - The price to round (numbers and API price strings are both accepted)
  * @param symbol - The trading symbol (e.g., 'BTC', 'ETH')
+ * @param markets - Market specs loaded from the API (optional)
  * @returns Rounded price as a string
  */
-export function roundToTickSize(price: number, symbol: string): string {
-  const tickSize = TICK_SIZES[symbol] || 0.01; // Default to 0.01 if not specified
-  const rounded = Math.round(price / tickSize) * tickSize;
-  
-  // Determine decimal places based on tick size
-  const decimals = tickSize >= 1 ? 0 : Math.abs(Math.floor(Math.log10(tickSize)));
-  
-  return rounded.toFixed(decimals);
+export function roundToTickSize(price: DecimalValue, symbol: string, markets?: MarketSpecLookup): string {
+  const tickSize = getTickSize(symbol, markets);
+  const rounded = Decimal.from(price).roundToStep(tickSize);
+  return formatToStep(rounded, tickSize);
 }
 
 /**
@@ -114,20 +147,25 @@ export function validateBalance(
  * @param symbol - Trading symbol
  * @param stopLossPercent - Stop-loss percentage (e.g., 5 for 5%)
  * @param takeProfitPercent - Take-profit percentage (e.g., 10 for 10%)
+ * @param markets - Market specs loaded from the API (optional)
  * @returns Object with rounded SL and TP prices
  */
 export function calculateSLTP(
-  entryPrice: number,
+  entryPrice: DecimalValue,
   side: 'bid' | 'ask',
   symbol: string,
-  stopLossPercent: number,
-  takeProfitPercent: number
+  stopLossPercent: DecimalValue,
+  takeProfitPercent: DecimalValue,
+  markets?: MarketSpecLookup
 ): { stopLoss: string; takeProfit: string } {
-  const slMultiplier = side === 'bid' ? (1 - stopLossPercent / 100) : (1 + stopLossPercent / 100);
-  const tpMultiplier = side === 'bid' ? (1 + takeProfitPercent / 100) : (1 - takeProfitPercent / 100);
+  const entry = Decimal.from(entryPrice);
+  const slFraction = Decimal.from(stopLossPercent).div(100);
+  const tpFraction = Decimal.from(takeProfitPercent).div(100);
+  const slMultiplier = side === 'bid' ? Decimal.ONE.minus(slFraction) : Decimal.ONE.plus(slFraction);
+  const tpMultiplier = side === 'bid' ? Decimal.ONE.plus(tpFraction) : Decimal.ONE.minus(tpFraction);
   
-  const stopLoss = roundToTickSize(entryPrice * slMultiplier, symbol);
-  const takeProfit = roundToTickSize(entryPrice * tpMultiplier, symbol);
+  const stopLoss = roundToTickSize(entry.times(slMultiplier), symbol, markets);
+  const takeProfit = roundToTickSize(entry.times(tpMultiplier), symbol, markets);
   
   return { stopLoss, takeProfit };
 }
@@ -137,6 +175,7 @@ export function calculateSLTP(
  * @param params - Order parameters
  * @param marketData - Current market data (mark price, etc.)
  * @param accountData - Account data (available balance)
+ * @param markets - Market specs loaded from the API (optional); adds status, lot size and order size checks
  * @returns Object with isValid flag and array of error messages
  */
 export interface OrderValidationParams {
@@ -158,33 +197,56 @@ export interface AccountData {
 export function validateOrder(
   params: OrderValidationParams,
   marketData: MarketData,
-  accountData: AccountData
+  accountData: AccountData,
+  markets?: MarketSpecLookup
 ): { isValid: boolean; errors: string[]; warnings: string[] } {
   const errors: string[] = [];
   const warnings: string[] = [];
+  const spec = markets?.get(params.symbol);
+
+  if (markets && !spec) {
+    return { isValid: false, errors: [`Unknown market: ${params.symbol}`], warnings };
+  }
+  if (spec?.status !== undefined && spec.status !== 'active') {
+    errors.push(`Market ${params.symbol} is not open for trading (status: ${spec.status})`);
+  }
   
-  const amount = parseFloat(params.amount);
-  const price = params.price ? parseFloat(params.price) : marketData.markPrice;
+  const exactAmount = Decimal.tryFrom(params.amount);
+  const exactPrice = params.price ? Decimal.tryFrom(params.price) : Decimal.tryFrom(marketData.markPrice);
+  const amount = exactAmount ? exactAmount.toNumber() : NaN;
+  const price = exactPrice ? exactPrice.toNumber() : NaN;
   
   // Validate amount
-  if (isNaN(amount) || amount <= 0) {
+  if (!exactAmount || !exactAmount.isPositive()) {
     errors.push('Invalid amount: must be a positive number');
+  } else if (spec && !exactAmount.isMultipleOf(spec.lot_size)) {
+    errors.push(
+      `Amount ${exactAmount} is not a multiple of lot size ${spec.lot_size}. ` +
+      `Recommended: ${formatToStep(exactAmount.roundToStep(spec.lot_size, 'down'), spec.lot_size)}`
+    );
   }
   
   // Validate price for limit orders
   if (params.orderType === 'limit' && params.price) {
-    if (isNaN(price) || price <= 0) {
+    if (!exactPrice || !exactPrice.isPositive()) {
       errors.push('Invalid price: must be a positive number');
     } else {
       // Check tick size
-      const tickSize = TICK_SIZES[params.symbol] || 0.01;
-      const remainder = price % tickSize;
-      if (remainder > 0.000001) {
+      const tickSize = markets || TICK_SIZES[params.symbol] !== undefined ? getTickSize(params.symbol, markets) : undefined;
+      if (!tickSize) {
+        warnings.push(`Tick size of ${params.symbol} is unknown; pass a MarketRegistry to check the price`);
+      } else if (!exactPrice.isMultipleOf(tickSize)) {
         warnings.push(
-          `Price ${price} may not align with tick size ${tickSize}. ` +
-          `Recommended: ${roundToTickSize(price, params.symbol)}`
+          `Price ${exactPrice} may not align with tick size ${tickSize}. ` +
+          `Recommended: ${roundToTickSize(exactPrice, params.symbol, markets)}`
         );
       }
+      if (spec?.min_tick && exactPrice.lt(spec.min_tick)) {
+        errors.push(`Price ${exactPrice} is below the minimum price ${spec.min_tick}`);
+      }
+      if (spec?.max_tick && exactPrice.gt(spec.max_tick)) {
+        errors.push(`Price ${exactPrice} is above the maximum price ${spec.max_tick}`);
+      }
       
       // Check price range
       const priceValidation = validatePriceRange(price, marketData.markPrice);
@@ -195,13 +257,17 @@ export function validateOrder(
   }
   
   // Validate minimum order value
-  const minValueValidation = validateMinOrderValue(amount, price);
+  const minValue = spec ? Decimal.from(spec.min_order_size).toNumber() : MIN_ORDER_VALUE;
+  const minValueValidation = validateMinOrderValue(amount, price, minValue);
   if (!minValueValidation.isValid) {
     errors.push(minValueValidation.error!);
   }
   
   // Validate balance
-  const orderValue = amount * price;
+  const orderValue = exactAmount && exactPrice ? exactAmount.times(exactPrice).toNumber() : NaN;
+  if (spec?.max_order_size && orderValue > Decimal.from(spec.max_order_size).toNumber()) {
+    errors.push(`Order value $${orderValue.toFixed(2)} exceeds maximum $${spec.max_order_size}`);
+  }
   const balanceValidation = validateBalance(orderValue, accountData.availableBalance);
   if (!balanceValidation.isValid) {
     errors.push(balanceValidation.error!);
@@ -0,0 +1,113 @@
+/**
+ * HTTP transports for Pacifica SDK clients
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import { NetworkOptions, Transport, TransportRequest, TransportResponse } from '../types';
+import { createAgent } from './network';
+
+/**
+ * Default transport backed by the global fetch implementation
+ */
+export class FetchTransport implements Transport {
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    return fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal,
+    });
+  }
+}
+
+/**
+ * Transport built on Node's http/https modules, for proxies, keep-alive
+ * pooling and custom TLS settings that fetch does not expose
+ */
+export class NodeHttpTransport implements Transport {
+  private agents: Map<string, http.Agent> = new Map();
+
+  constructor(private readonly options?: NetworkOptions) {}
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const url = new URL(request.url);
+    const client = url.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      if (request.signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      const req = client.request(url, {
+        method: request.method,
+        headers: {
+          ...request.headers,
+          ...(request.body !== undefined && { 'Content-Length': Buffer.byteLength(request.body).toString() }),
+        },
+        agent: this.agentFor(url),
+      });
+
+      const onAbort = () => req.destroy(abortError());
+      request.signal?.addEventListener('abort', onAbort, { once: true });
+
+      req.once('response', (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.once('error', reject);
+        res.once('end', () => {
+          request.signal?.removeEventListener('abort', onAbort);
+          const body = Buffer.concat(chunks).toString('utf8');
+          const status = res.statusCode ?? 0;
+          resolve({
+            ok: status >= 200 && status < 300,
+            status,
+            statusText: res.statusMessage ?? '',
+            headers: {
+              get: (name: string) => {
+                const value = res.headers[name.toLowerCase()];
+                return Array.isArray(value) ? value.join(', ') : value ?? null;
+              },
+            },
+            json: async () => JSON.parse(body),
+            text: async () => body,
+          });
+        });
+      });
+      req.once('error', (error) => {
+        request.signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      });
+
+      if (request.body !== undefined) {
+        req.write(request.body);
+      }
+      req.end();
+    });
+  }
+
+  /**
+   * Close pooled keep-alive connections
+   */
+  destroy(): void {
+    this.agents.forEach((agent) => agent.destroy());
+    this.agents.clear();
+  }
+
+  private agentFor(url: URL): http.Agent {
+    const key = `${url.protocol}//${url.host}`;
+    let agent = this.agents.get(key);
+    if (!agent) {
+      agent = createAgent(url.href, this.options);
+      this.agents.set(key, agent);
+    }
+    return agent;
+  }
+}
+
+function abortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
@@ -0,0 +1,286 @@
+/**
+ * TWAP execution tracker
+ * Merges polling of the TWAP order history with WebSocket twap_order_update events
+ * into a single progress model, and resolves once the order reaches a terminal status.
+ */
+
+import { ApiResponse, CallOptions, MarkPriceCandleData, OrderSide, TWAPOrder } from '../types';
+import { PacificaError, UnsuccessfulResponseError } from '../errors';
+import { Decimal } from './decimal';
+import { TypedEventEmitter } from './events';
+import { logger, Logger } from './logger';
+import { normalizeOrderSide, parseTimestamp } from './normalize';
+
+/**
+ * Endpoints the tracker reads from, such as an ApiClient
+ */
+export interface TWAPOrderSource {
+  getTWAPOrderHistoryById(orderId: string | number, options?: CallOptions): Promise<ApiResponse<TWAPOrder>>;
+  getMarkPriceCandleData?(
+    symbol: string,
+    interval: string,
+    startTime: number,
+    endTime?: number,
+    limit?: number,
+    options?: CallOptions
+  ): Promise<ApiResponse<MarkPriceCandleData[]>>;
+}
+
+/**
+ * Event stream carrying twap_order_update messages, such as a WebSocketClient
+ */
+export interface TWAPUpdateStream {
+  on(event: 'twap_order_update', handler: (data: any) => void): void;
+  off(event: 'twap_order_update', handler: (data: any) => void): void;
+}
+
+export interface TWAPTrackerOptions {
+  pollIntervalMs?: number;  // Time between history polls (default 5000)
+  arrivalMarkPrice?: string;  // Mark price when the order was placed; read from the 1m mark price candle at created_at when omitted
+  updates?: TWAPUpdateStream;  // WebSocket client subscribed to the account's TWAP order updates
+  logger?: Logger;  // Logger for poll failures (defaults to the SDK logger)
+  unref?: boolean;  // Let the process exit while the poll timer is pending (default false)
+}
+
+export interface TWAPProgress {
+  orderId: string;
+  symbol: string;
+  side: OrderSide;
+  status: string;
+  amount: Decimal;
+  filledAmount: Decimal;
+  remainingAmount: Decimal;
+  percentComplete: number;  // 0-100
+  averageFillPrice?: Decimal;
+  arrivalMarkPrice?: Decimal;
+  slippageBps?: number;  // Average fill vs arrival mark; positive means a worse price than arrival. Undefined without an arrival mark
+  startedAt: number;  // Order creation time (ms)
+  elapsedMs: number;
+  remainingMs: number;  // Scheduled time left; 0 once the duration has passed
+  terminal: boolean;
+  updatedAt: number;  // Time of the latest update (ms)
+  source: 'poll' | 'websocket';
+  raw: TWAPOrder;
+}
+
+export interface TWAPTrackerEvents {
+  progress: TWAPProgress;
+  complete: TWAPProgress;
+  error: Error;
+}
+
+const TERMINAL_STATUSES = new Set([
+  'filled', 'finished', 'completed', 'cancelled', 'canceled', 'rejected', 'expired', 'failed',
+]);
+
+/**
+ * Whether a TWAP order status is final
+ */
+export function isTerminalTWAPStatus(status: string): boolean {
+  return TERMINAL_STATUSES.has(status.toLowerCase());
+}
+
+export class TWAPTracker extends TypedEventEmitter<TWAPTrackerEvents> {
+  private readonly orderId: string;
+  private readonly pollIntervalMs: number;
+  private readonly updates?: TWAPUpdateStream;
+  private readonly logger: Logger;
+  private readonly unref: boolean;
+  private arrivalMarkPrice?: Decimal;
+  private arrivalLookedUp = false;
+  private latest?: TWAPProgress;
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+  private running = false;
+  private readonly completion: Promise<TWAPProgress>;
+  private resolveDone!: (progress: TWAPProgress) => void;
+  private rejectDone!: (error: Error) => void;
+  private readonly handleUpdate = (data: any) => this.onUpdate(data);
+
+  constructor(private readonly source: TWAPOrderSource, orderId: string | number, options?: TWAPTrackerOptions) {
+    super();
+    this.orderId = String(orderId);
+    this.pollIntervalMs = options?.pollIntervalMs ?? 5000;
+    this.updates = options?.updates;
+    this.logger = options?.logger ?? logger;
+    this.unref = options?.unref ?? false;
+    this.arrivalMarkPrice = Decimal.tryFrom(options?.arrivalMarkPrice) ?? undefined;
+    this.completion = new Promise((resolve, reject) => {
+      this.resolveDone = resolve;
+      this.rejectDone = reject;
+    });
+    this.completion.catch(() => undefined);  // Unobserved until done() is called
+  }
+
+  /**
+   * Begin polling and listening for WebSocket updates. Polls once immediately.
+   */
+  start(): void {
+    if (this.running || this.latest?.terminal) {
+      return;
+    }
+    this.running = true;
+    this.updates?.on('twap_order_update', this.handleUpdate);
+    this.timer = setInterval(() => void this.poll(), this.pollIntervalMs);
+    if (this.unref) {
+      this.timer.unref?.();
+    }
+    void this.poll();
+  }
+
+  /**
+   * Stop tracking. done() rejects if the order has not reached a terminal status.
+   */
+  stop(): void {
+    this.detach();
+    if (!this.latest?.terminal) {
+      this.rejectDone(new PacificaError(`Stopped tracking TWAP order ${this.orderId} before completion`, 'TWAP_TRACKING_STOPPED'));
+    }
+  }
+
+  /**
+   * Resolves with the final progress once the order is filled, cancelled or otherwise terminal
+   */
+  done(): Promise<TWAPProgress> {
+    return this.completion;
+  }
+
+  /**
+   * Latest known progress, or undefined before the first update
+   */
+  getProgress(): TWAPProgress | undefined {
+    return this.latest;
+  }
+
+  /**
+   * Fetch the order history once and apply it
+   */
+  async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      const response = await this.source.getTWAPOrderHistoryById(this.orderId);
+      if (!response.success || !response.data) {
+        throw new UnsuccessfulResponseError(response.error?.message ?? `Failed to load TWAP order ${this.orderId}`, response);
+      }
+      // A missing arrival price only leaves slippage unknown; the fill data still applies
+      try {
+        await this.loadArrivalPrice(response.data);
+      } catch (error) {
+        this.fail(error, 'arrival price lookup failed');
+      }
+      this.apply(response.data, 'poll');
+    } catch (error) {
+      this.fail(error, 'poll failed');
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private onUpdate(data: any): void {
+    for (const update of Array.isArray(data) ? data : [data]) {
+      if (!update || String(update.order_id ?? update.id) !== this.orderId) {
+        continue;
+      }
+      try {
+        this.apply({ ...this.latest?.raw, ...update, id: update.order_id ?? update.id }, 'websocket');
+      } catch (error) {
+        this.fail(error, 'update could not be applied');
+      }
+    }
+  }
+
+  /**
+   * Read the mark price when the order was placed from the 1m mark price candle covering created_at
+   */
+  private async loadArrivalPrice(order: TWAPOrder): Promise<void> {
+    const createdAt = parseTimestamp(order.created_at);
+    if (this.arrivalMarkPrice || this.arrivalLookedUp || createdAt === undefined || !this.source.getMarkPriceCandleData) {
+      return;
+    }
+    const minuteStart = Math.floor(createdAt / 60_000) * 60_000;
+    const response = await this.source.getMarkPriceCandleData(order.symbol, '1m', minuteStart, minuteStart + 60_000);
+    if (!response.success) {
+      throw new UnsuccessfulResponseError(response.error?.message ?? `Failed to load the arrival mark price for ${order.symbol}`, response);
+    }
+    const candle = response.data?.find((c) => c.t <= createdAt && createdAt <= c.T);
+    this.arrivalMarkPrice = Decimal.tryFrom(candle?.o) ?? undefined;
+    this.arrivalLookedUp = true;
+  }
+
+  private apply(order: TWAPOrder, source: TWAPProgress['source']): void {
+    if (this.latest?.terminal) {
+      return;
+    }
+    const progress = this.toProgress(order, source);
+    // Polls and WebSocket messages can arrive out of order; never move backwards
+    if (this.latest && progress.filledAmount.lt(this.latest.filledAmount) && !progress.terminal) {
+      return;
+    }
+    this.latest = progress;
+    this.emit('progress', progress);
+
+    if (progress.terminal) {
+      this.detach();
+      this.emit('complete', progress);
+      this.resolveDone(progress);
+    }
+  }
+
+  private toProgress(order: TWAPOrder, source: TWAPProgress['source']): TWAPProgress {
+    const raw = order as TWAPOrder & Record<string, any>;
+    const now = Date.now();
+    const side = normalizeOrderSide(order.side);
+    const amount = Decimal.from(raw.amount ?? raw.initial_amount);
+    const filledAmount = Decimal.tryFrom(raw.filled_amount) ?? Decimal.ZERO;
+    const averageFillPrice = Decimal.tryFrom(raw.average_fill_price ?? raw.average_price) ?? undefined;
+    const startedAt = parseTimestamp(order.created_at) ?? now;
+    const durationMs = Number(order.duration_in_seconds) * 1000;
+    const elapsedMs = Math.max(0, now - startedAt);
+
+    let slippageBps: number | undefined;
+    if (averageFillPrice && this.arrivalMarkPrice && !this.arrivalMarkPrice.isZero()) {
+      const difference = side === 'bid'
+        ? averageFillPrice.minus(this.arrivalMarkPrice)
+        : this.arrivalMarkPrice.minus(averageFillPrice);
+      slippageBps = difference.times(10000).div(this.arrivalMarkPrice, 4).toNumber();
+    }
+
+    return {
+      orderId: this.orderId,
+      symbol: order.symbol,
+      side,
+      status: order.status,
+      amount,
+      filledAmount,
+      remainingAmount: amount.minus(filledAmount),
+      percentComplete: amount.isZero() ? 0 : Math.min(100, filledAmount.times(100).div(amount, 4).toNumber()),
+      averageFillPrice,
+      arrivalMarkPrice: this.arrivalMarkPrice,
+      slippageBps,
+      startedAt,
+      elapsedMs,
+      remainingMs: Number.isFinite(durationMs) ? Math.max(0, durationMs - elapsedMs) : 0,
+      terminal: isTerminalTWAPStatus(order.status),
+      updatedAt: parseTimestamp(raw.updated_at) ?? now,
+      source,
+      raw: order,
+    };
+  }
+
+  private fail(error: any, context: string): void {
+    this.logger.warn(`TWAP order ${this.orderId} ${context}: ${error?.message ?? error}`);
+    this.emit('error', error instanceof Error ? error : new Error(String(error)));
+  }
+
+  private detach(): void {
+    this.running = false;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.updates?.off('twap_order_update', this.handleUpdate);
+  }
+}